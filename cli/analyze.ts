@@ -0,0 +1,195 @@
+// Command-line batch analysis: npm run build:cli, then npm run analyze -- [options] <files...>
+
+import { mkdirSync, readFileSync, statSync, writeFileSync } from 'node:fs';
+import { basename, extname, join } from 'node:path';
+import { parseArgs } from 'node:util';
+import {
+  BUILT_IN_PLANS,
+  DEFAULT_PARAMS,
+  analysisToJson,
+  analyzeActivity,
+  buildReport,
+  chartDataToCsv,
+  validateParams
+} from '../src/core';
+import type { ActivityResult, IntervalDetectionMode, Sex, TrainingParams, ZoneModelType } from '../src/core';
+
+type OutputFormat = 'report' | 'json' | 'csv';
+
+const FORMATS: OutputFormat[] = ['report', 'json', 'csv'];
+const SEXES: Sex[] = ['male', 'female'];
+const DETECTION_MODES: IntervalDetectionMode[] = ['schedule', 'auto', 'laps'];
+const ZONE_MODELS: ZoneModelType[] = ['percentMax', 'karvonen', 'lthr'];
+
+const USAGE = `Usage: analyze [options] <activity files...>
+
+Reads TCX, GPX, FIT, CSV or RR interval files and prints the analysis report,
+or writes JSON or per-sample CSV.
+
+Athlete
+  --max-hr <bpm>          Maximum heart rate (default ${DEFAULT_PARAMS.maxHR})
+  --resting-hr <bpm>      Resting heart rate (default ${DEFAULT_PARAMS.restingHR})
+  --age <years>           Age (default ${DEFAULT_PARAMS.age})
+  --weight <kg>           Body weight (default ${DEFAULT_PARAMS.weight})
+  --sex <male|female>     Sex used for the calorie estimate (default ${DEFAULT_PARAMS.sex})
+  --zone-model <type>     percentMax, karvonen or lthr (default ${DEFAULT_PARAMS.zoneModel.type})
+  --lthr <bpm>            Lactate threshold HR for the lthr zone model
+
+Session
+  --warmup <s>            Warmup length (default ${DEFAULT_PARAMS.warmupTime})
+  --active <s>            Active phase length (default ${DEFAULT_PARAMS.activePhase})
+  --recovery <s>          Recovery phase length (default ${DEFAULT_PARAMS.recoveryPhase})
+  --intervals <n>         Number of intervals (default ${DEFAULT_PARAMS.intervals})
+  --cooldown <s>          Cooldown length (default ${DEFAULT_PARAMS.cooldownTime})
+  --plan <name>           Built-in plan instead of the uniform schedule, by name or its start:
+                          ${BUILT_IN_PLANS.map(plan => `"${plan.name}"`).join(', ')}
+  --detection <mode>      schedule, auto or laps (default ${DEFAULT_PARAMS.intervalDetection})
+  --no-cleaning           Analyze the raw heart-rate samples
+
+Output
+  --format <format>       report, json or csv (default report)
+  --out <dir>             Write one file per input into this directory instead of stdout
+  -h, --help              Show this help
+`;
+
+class UsageError extends Error {}
+
+const numberOption = (values: Record<string, unknown>, name: string, fallback: number) => {
+  const raw = values[name];
+  if (raw === undefined) return fallback;
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < 0) throw new UsageError(`--${name} expects a non-negative number, got "${raw}"`);
+  return value;
+};
+
+const choiceOption = <T extends string>(values: Record<string, unknown>, name: string, choices: T[], fallback: T): T => {
+  const raw = values[name];
+  if (raw === undefined) return fallback;
+  if (!choices.includes(raw as T)) throw new UsageError(`--${name} expects one of ${choices.join(', ')}, got "${raw}"`);
+  return raw as T;
+};
+
+const parseCommandLine = (args: string[]) => {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      'max-hr': { type: 'string' },
+      'resting-hr': { type: 'string' },
+      age: { type: 'string' },
+      weight: { type: 'string' },
+      sex: { type: 'string' },
+      'zone-model': { type: 'string' },
+      lthr: { type: 'string' },
+      warmup: { type: 'string' },
+      active: { type: 'string' },
+      recovery: { type: 'string' },
+      intervals: { type: 'string' },
+      cooldown: { type: 'string' },
+      plan: { type: 'string' },
+      detection: { type: 'string' },
+      'no-cleaning': { type: 'boolean' },
+      format: { type: 'string' },
+      out: { type: 'string' },
+      help: { type: 'boolean', short: 'h' }
+    }
+  });
+
+  let plan = null;
+  if (values.plan !== undefined) {
+    // Matches on the start of the name, so "tabata" picks "Tabata (8 × 20/10)"
+    const name = values.plan.toLowerCase();
+    plan = BUILT_IN_PLANS.find(builtIn => builtIn.name.toLowerCase().startsWith(name)) ?? null;
+    if (!plan) throw new UsageError(`Unknown plan "${values.plan}"`);
+  }
+
+  const params: TrainingParams = {
+    ...DEFAULT_PARAMS,
+    maxHR: numberOption(values, 'max-hr', DEFAULT_PARAMS.maxHR),
+    restingHR: numberOption(values, 'resting-hr', DEFAULT_PARAMS.restingHR),
+    age: numberOption(values, 'age', DEFAULT_PARAMS.age),
+    weight: numberOption(values, 'weight', DEFAULT_PARAMS.weight),
+    sex: choiceOption(values, 'sex', SEXES, DEFAULT_PARAMS.sex),
+    zoneModel: {
+      ...DEFAULT_PARAMS.zoneModel,
+      type: choiceOption(values, 'zone-model', ZONE_MODELS, DEFAULT_PARAMS.zoneModel.type),
+      lthr: numberOption(values, 'lthr', DEFAULT_PARAMS.zoneModel.lthr)
+    },
+    warmupTime: numberOption(values, 'warmup', DEFAULT_PARAMS.warmupTime),
+    activePhase: numberOption(values, 'active', DEFAULT_PARAMS.activePhase),
+    recoveryPhase: numberOption(values, 'recovery', DEFAULT_PARAMS.recoveryPhase),
+    intervals: numberOption(values, 'intervals', DEFAULT_PARAMS.intervals),
+    cooldownTime: numberOption(values, 'cooldown', DEFAULT_PARAMS.cooldownTime),
+    intervalDetection: choiceOption(values, 'detection', DETECTION_MODES, DEFAULT_PARAMS.intervalDetection),
+    cleaning: { ...DEFAULT_PARAMS.cleaning, enabled: !values['no-cleaning'] },
+    plan
+  };
+
+  return {
+    files: positionals,
+    params,
+    format: choiceOption(values, 'format', FORMATS, 'report'),
+    outDir: values.out ?? null,
+    help: values.help ?? false
+  };
+};
+
+const EXTENSIONS: Record<OutputFormat, string> = { report: 'txt', json: 'json', csv: 'csv' };
+
+const render = (result: ActivityResult, params: TrainingParams, format: OutputFormat, fileName: string) => {
+  switch (format) {
+    case 'report':
+      return buildReport(result.analysis, params, { cleaning: params.cleaning.enabled ? result.cleaning : null, corrected: false });
+    case 'json':
+      return analysisToJson(result.analysis, params, fileName);
+    case 'csv':
+      return chartDataToCsv(result.chartData, result.analysis.zones, result.phases);
+  }
+};
+
+const main = (args: string[]) => {
+  const { files, params, format, outDir, help } = parseCommandLine(args);
+  if (help) {
+    process.stdout.write(USAGE);
+    return 0;
+  }
+  if (files.length === 0) throw new UsageError('No activity files given');
+  if (!outDir && format !== 'report' && files.length > 1) {
+    throw new UsageError(`--out is required to write ${format.toUpperCase()} for more than one file`);
+  }
+  if (outDir) mkdirSync(outDir, { recursive: true });
+
+  let failures = 0;
+  for (const file of files) {
+    const fileName = basename(file);
+    try {
+      // CSV and RR files carry elapsed time only and are dated by the file's modification time
+      const result = analyzeActivity(new Uint8Array(readFileSync(file)), fileName, statSync(file).mtimeMs, params);
+      for (const issue of validateParams(result.chartData, params, result.activity.laps)) {
+        console.error(`${fileName}: warning: ${issue.message}`);
+      }
+
+      const output = render(result, params, format, fileName);
+      if (outDir) {
+        const target = join(outDir, `${basename(file, extname(file))}.${EXTENSIONS[format]}`);
+        writeFileSync(target, output);
+        console.error(`${fileName}: wrote ${target}`);
+      } else {
+        process.stdout.write(`${output}\n`);
+      }
+    } catch (error) {
+      failures++;
+      console.error(`${fileName}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  return failures > 0 ? 1 : 0;
+};
+
+try {
+  process.exitCode = main(process.argv.slice(2));
+} catch (error) {
+  if (!(error instanceof UsageError) && !(error instanceof TypeError)) throw error;
+  // parseArgs reports unknown options as TypeErrors
+  console.error(`${error.message}\n\n${USAGE}`);
+  process.exitCode = 2;
+}
@@ -1,440 +1,541 @@
-import { useState, useRef } from 'react';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine, PieChart, Pie, Cell } from 'recharts';
-import { Upload, Download, Activity, Heart, Flame, TrendingUp } from 'lucide-react';
-
-interface TrackPointData {
-  time: number;
-  heartRate: number;
-  timestamp: Date;
+import { Fragment, useState, useRef, useEffect, useMemo } from 'react';
+import type { ChangeEvent, DragEvent } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine, ReferenceArea, Brush, PieChart, Pie, Cell } from 'recharts';
+import { Upload, Download, FileText, Activity, Heart, Flame, TrendingUp, History, Gauge, BarChart3, Zap, Bluetooth } from 'lucide-react';
+import type { ActivityMarkers, AthleteProfile, BeatInterval, ChannelKey, IntervalDetectionMode, ParsedActivity, SensorChannels, Sex, TrackPointData, TrainingParams, WorkoutPlan } from './types';
+import type { IntervalWindow } from './analysis/intervalDetection';
+import { BOUNDARY_EDGES, moveBoundary, nearestBoundary, toWindows } from './analysis/intervalEdits';
+import type { BoundaryEdge } from './analysis/intervalEdits';
+import { NO_MARKERS, pausedSeconds } from './analysis/laps';
+import { trainingEffectLabel } from './analysis/load';
+import { CHANNELS, displayValue, formatChannel } from './analysis/channels';
+import { COMPLIANCE_PASS_SHARE, targetLabel } from './analysis/compliance';
+import { cleanHeartRate } from './analysis/cleaning';
+import { PHASE_SHADES, sessionPhases } from './analysis/phases';
+import { DETECTION_LABELS, DEFAULT_PARAMS, analyzeHIIT, buildChartData, toMinutes } from './analysis/session';
+import { rangeStats } from './analysis/selection';
+import { validateParams } from './analysis/validation';
+import { DEFAULT_MAX_GAP, calculateHRZones, zonePercentage } from './analysis/zones';
+import { collectDroppedFiles } from './utils/droppedFiles';
+import { datedFileName, downloadBlob } from './export/download';
+import { analysisToJson, chartDataToCsv } from './export/data';
+import { buildPdf, canvasToPdfImage } from './export/pdf';
+import { canvasToBlob, composeChartSvg, svgToCanvas } from './export/svg';
+import { buildReport, activeChannelColumns, formatCompliance, formatDrift, formatDrop, formatReactivation } from './export/report';
+import { writeTCX } from './export/tcx';
+import { formatClock } from './utils/format';
+import type { ParamField } from './analysis/validation';
+import { acceptedExtensions, hasActivityExtension, importActivity } from './importers';
+import { deleteSession, listSessions, saveSession } from './storage/history';
+import type { StoredSession } from './storage/history';
+import { deletePlan, listPlans, savePlan } from './storage/plans';
+import { onLaunchFiles, takeSharedFiles } from './pwa/launchFiles';
+import { athleteParams, deleteAthlete, listAthletes, loadActiveAthleteId, saveAthlete, storeActiveAthleteId } from './storage/athletes';
+import AthletePanel from './components/AthletePanel';
+import BatchTable from './components/BatchTable';
+import CleaningPanel from './components/CleaningPanel';
+import CompareView from './components/CompareView';
+import type { ComparedSession } from './components/CompareView';
+import type { BatchItem } from './components/BatchTable';
+import ExportMenu from './components/ExportMenu';
+import type { ExportOption } from './components/ExportMenu';
+import HistoryView from './components/HistoryView';
+import HrvPanel from './components/HrvPanel';
+import IntervalEditor from './components/IntervalEditor';
+import LivePanel from './components/LivePanel';
+import PlanEditor from './components/PlanEditor';
+import RangeStatsPanel from './components/RangeStatsPanel';
+import ZoneModelEditor from './components/ZoneModelEditor';
+
+
+type OverlayPoint = Partial<ReturnType<typeof buildChartData>[number]> & { timeMinutes: number; rawHeartRate?: number };
+
+// Raw samples merged onto the cleaned series by time, for the overlay
+const overlayRawSeries = (chartData: ReturnType<typeof buildChartData>, raw: TrackPointData[]) => {
+  const points = new Map<number, OverlayPoint>(chartData.map(point => [point.time, { ...point }]));
+  raw.forEach(point => {
+    const existing = points.get(point.time);
+    if (existing) {
+      existing.rawHeartRate = point.heartRate;
+    } else {
+      points.set(point.time, { timeMinutes: toMinutes(point.time), rawHeartRate: point.heartRate });
+    }
+  });
+  return [...points.entries()].sort((a, b) => a[0] - b[0]).map(([, point]) => point);
+};
+
+// A stretch of the chart's time axis, in minutes
+interface ChartRange {
+  from: number;
+  to: number;
 }
 
+// Marker colors for the boundaries dragged when correcting intervals
+const BOUNDARY_COLORS: Record<BoundaryEdge, string> = {
+  start: '#059669',
+  activeEnd: '#DC2626',
+  recoveryEnd: '#6B7280'
+};
+
+// Brush indices covering a time range; the whole series without one
+const brushIndices = (points: { timeMinutes: number }[], range: ChartRange | null) => {
+  const last = points.length - 1;
+  if (!range) return { startIndex: 0, endIndex: last };
+  const startIndex = points.findIndex(point => point.timeMinutes >= range.from);
+  let endIndex = last;
+  while (endIndex > 0 && points[endIndex].timeMinutes > range.to) endIndex--;
+  return startIndex < 0 || startIndex >= endIndex ? { startIndex: 0, endIndex: last } : { startIndex, endIndex };
+};
+
+const orderedRange = (a: number, b: number): ChartRange => ({ from: Math.min(a, b), to: Math.max(a, b) });
+
+// Time (minutes) under the pointer, from a chart mouse event
+const pointerMinutes = (state: { activeLabel?: string | number }) => {
+  const minutes = Number(state.activeLabel);
+  return state.activeLabel !== undefined && Number.isFinite(minutes) ? minutes : null;
+};
+
+
+// Files that could not be read or parsed, whether dropped, picked, opened or shared
+const reportImportError = (error: unknown) => {
+  console.error('Activity import error:', error);
+  alert(error instanceof Error ? error.message : 'Error importing activity file.');
+};
+
 const HIITAnalyzer = () => {
   const [tcxData, setTcxData] = useState<TrackPointData[] | null>(null);
-  const [chartData, setChartData] = useState([]);
-  const [analysis, setAnalysis] = useState(null);
-  const [userParams, setUserParams] = useState({
-    maxHR: 175,
-    age: 51,
-    weight: 86,
-    warmupTime: 300, // 5 minutes in seconds
-    activePhase: 120,
-    recoveryPhase: 120,
-    intervals: 6,
-    cooldownTime: 180
-  });
+  const [userParams, setUserParams] = useState<TrainingParams>(DEFAULT_PARAMS);
   const [isLoading, setIsLoading] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [batch, setBatch] = useState<BatchItem[]>([]);
+  const [sessions, setSessions] = useState<StoredSession[]>([]);
+  const [currentSessionId, setCurrentSessionId] = useState<number | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showLive, setShowLive] = useState(false);
+  const [compareIds, setCompareIds] = useState<number[]>([]);
+  const [showCompare, setShowCompare] = useState(false);
+  const [showRawOverlay, setShowRawOverlay] = useState(false);
+  const [markers, setMarkers] = useState<ActivityMarkers>(NO_MARKERS);
+  const [rrIntervals, setRRIntervals] = useState<BeatInterval[]>([]);
+  const [secondaryChannel, setSecondaryChannel] = useState<ChannelKey | ''>('');
+  const [athletes, setAthletes] = useState<AthleteProfile[]>([]);
+  const [activeAthleteId, setActiveAthleteId] = useState<number | null>(loadActiveAthleteId);
+  const [savedPlans, setSavedPlans] = useState<WorkoutPlan[]>([]);
+  const [zoomRange, setZoomRange] = useState<ChartRange | null>(null);
+  const [dragRange, setDragRange] = useState<ChartRange | null>(null);
+  const [selection, setSelection] = useState<ChartRange | null>(null);
+  const [intervalEdits, setIntervalEdits] = useState<IntervalWindow[] | null>(null);
+  const [editingIntervals, setEditingIntervals] = useState(false);
+  const [boundaryDrag, setBoundaryDrag] = useState<{ index: number; edge: BoundaryEdge; minutes: number } | null>(null);
+  // Files opened from the operating system or shared from another app, waiting to be imported
+  const [launchedFiles, setLaunchedFiles] = useState<File[]>([]);
   const chartRef = useRef<HTMLDivElement>(null);
+  const pieRef = useRef<HTMLDivElement>(null);
 
-  const parseDate = (dateStr: string | null) => {
-    // Handle different date formats in TCX
-    if (!dateStr) return null;
+  const refreshSessions = async () => {
     try {
-      return new Date(dateStr);
-    } catch (e) {
-      return null;
+      setSessions(await listSessions());
+    } catch (error) {
+      console.error('Failed to load workout history:', error);
     }
   };
 
-  const parseTCX = async (file: File): Promise<TrackPointData[]> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        try {
-          if (!e.target?.result) {
-            throw new Error('Failed to read file content');
-          }
-          
-          const result = e.target.result;
-          if (typeof result !== 'string') {
-            throw new Error('File content is not text');
-          }
-          
-          const xmlText = result;
-          console.log('XML text length:', xmlText.length);
-          
-          const parser = new DOMParser();
-          const xmlDoc = parser.parseFromString(xmlText, 'text/xml');
-          
-          // Check for parsing errors
-          const parserError = xmlDoc.querySelector('parsererror');
-          if (parserError) {
-            throw new Error('Invalid XML format: ' + parserError.textContent);
-          }
-          
-          console.log('XML parsed successfully');
-          
-          // Extract trackpoints - try multiple possible selectors
-          let trackpoints = xmlDoc.querySelectorAll('Trackpoint');
-          if (trackpoints.length === 0) {
-            trackpoints = xmlDoc.querySelectorAll('trackpoint');
-          }
-          if (trackpoints.length === 0) {
-            trackpoints = xmlDoc.querySelectorAll('*[localName="Trackpoint" i]');
-          }
-          
-          console.log('Found trackpoints:', trackpoints.length);
-          
-          if (trackpoints.length === 0) {
-            throw new Error('No trackpoints found in TCX file. Please ensure this is a valid activity file.');
-          }
-          
-          const data: TrackPointData[] = [];
-          let startTime: Date | null = null;
-          let validPointsCount = 0;
-          
-          trackpoints.forEach((point, index) => {
-            // Try multiple selectors for time and heart rate
-            const timeElement = point.querySelector('Time') || 
-                               point.querySelector('time') || 
-                               point.querySelector('*[localName="Time" i]');
-                               
-            const hrElement = point.querySelector('HeartRateBpm Value') || 
-                             point.querySelector('HeartRateBpm value') ||
-                             point.querySelector('heartratebpm value') ||
-                             point.querySelector('*[localName="HeartRateBpm" i] *[localName="Value" i]') ||
-                             point.querySelector('hr') ||
-                             point.querySelector('HeartRate');
-            
-            if (timeElement && hrElement) {
-              const timeText = timeElement.textContent || timeElement.getAttribute('value');
-              const hrText = hrElement.textContent || hrElement.getAttribute('value');
-              
-              if (timeText && hrText) {
-                const time = parseDate(timeText);
-                const heartRate = parseInt(hrText);
-              
-                if (time && !isNaN(heartRate) && heartRate > 0 && heartRate < 220) {
-                  if (!startTime) startTime = time;
-                  const elapsedSeconds = Math.floor((time.getTime() - startTime.getTime()) / 1000);
-                
-                  data.push({
-                    time: elapsedSeconds,
-                    heartRate: heartRate,
-                    timestamp: time
-                  });
-                  validPointsCount++;
-                }
-              }
-            }
-            
-            // Debug first few points
-            if (index < 5) {
-              console.log(`Point ${index}:`, {
-                timeElement: timeElement?.textContent,
-                hrElement: hrElement?.textContent,
-                parsed: data[data.length - 1]
-              });
-            }
-          });
-          
-          console.log('Valid heart rate points found:', validPointsCount);
-          
-          if (data.length === 0) {
-            throw new Error('No valid heart rate data found. Please check that your TCX file contains heart rate measurements.');
-          }
-          
-          // Sort by time to ensure proper order
-          data.sort((a, b) => a.time - b.time);
-          
-          resolve(data);
-        } catch (error) {
-          console.error('TCX parsing error:', error);
-          reject(error);
-        }
-      };
-      reader.onerror = () => reject(new Error('Failed to read file'));
-      reader.readAsText(file);
+  const refreshAthletes = async () => {
+    try {
+      const list = await listAthletes();
+      setAthletes(list);
+      return list;
+    } catch (error) {
+      console.error('Failed to load athlete profiles:', error);
+      return [];
+    }
+  };
+
+  const refreshPlans = async () => {
+    try {
+      setSavedPlans(await listPlans());
+    } catch (error) {
+      console.error('Failed to load workout plans:', error);
+    }
+  };
+
+  // Profile values override the manual ones, as of the session date when a file is loaded
+  const applyAthlete = (athlete: AthleteProfile | undefined, date: Date) => {
+    if (!athlete) return;
+    setUserParams(params => ({ ...params, ...athleteParams(athlete, date) }));
+  };
+
+  useEffect(() => {
+    refreshSessions();
+    refreshPlans();
+    refreshAthletes().then(list => {
+      const storedId = loadActiveAthleteId();
+      applyAthlete(list.find(athlete => athlete.id === storedId), new Date());
+      // Launched files wait for the athlete so they are analyzed with the right parameters
+      onLaunchFiles(setLaunchedFiles, reportImportError);
+      takeSharedFiles()
+        .then(files => files.length > 0 && setLaunchedFiles(files))
+        .catch(reportImportError);
     });
+  }, []);
+
+  const selectAthlete = (id: number | null, list: AthleteProfile[] = athletes) => {
+    setActiveAthleteId(id);
+    storeActiveAthleteId(id);
+    if (id === null) {
+      setUserParams(params => ({ ...params, athleteId: null }));
+      return;
+    }
+    applyAthlete(list.find(athlete => athlete.id === id), tcxData?.[0].timestamp ?? new Date());
   };
 
-  const calculateHRZones = (maxHR: number) => {
-    return {
-      zone1: { min: Math.round(maxHR * 0.5), max: Math.round(maxHR * 0.6), name: 'Recovery', color: '#10B981' },
-      zone2: { min: Math.round(maxHR * 0.6), max: Math.round(maxHR * 0.7), name: 'Aerobic', color: '#3B82F6' },
-      zone3: { min: Math.round(maxHR * 0.7), max: Math.round(maxHR * 0.8), name: 'Aerobic Threshold', color: '#F59E0B' },
-      zone4: { min: Math.round(maxHR * 0.8), max: Math.round(maxHR * 0.9), name: 'Lactate Threshold', color: '#EF4444' },
-      zone5: { min: Math.round(maxHR * 0.9), max: maxHR, name: 'VO2 Max', color: '#8B5CF6' }
-    };
+  const storeAthlete = async (athlete: AthleteProfile) => {
+    try {
+      const id = await saveAthlete(athlete);
+      selectAthlete(id, await refreshAthletes());
+    } catch (error) {
+      console.error('Failed to save athlete profile:', error);
+      alert('Could not save the athlete profile on this device.');
+    }
   };
 
-  const calculateCalories = (avgHR: number, weight: number, durationMinutes: number, age: number, gender: string = 'male') => {
-    // More accurate calorie calculation using heart rate reserve method
-    const maxHR = 220 - age;
-    const restingHR = 60; // Assume average resting HR
-    const hrReserve = maxHR - restingHR;
-    const workingHR = avgHR - restingHR;
-    const hrIntensity = workingHR / hrReserve;
-    
-    // Gender-based metabolic rate adjustment
-    const genderFactor = gender === 'male' ? 1.0 : 0.9;
-    
-    // More conservative calorie estimation (3.5-12 METs range)
-    const mets = 3.5 + (hrIntensity * 8.5); // Scale from 3.5 to 12 METs
-    const caloriesPerMinute = (mets * 3.5 * weight * genderFactor) / 200;
-    
-    return Math.round(caloriesPerMinute * durationMinutes);
+  const removeAthlete = async (id: number) => {
+    try {
+      await deleteAthlete(id);
+      if (id === activeAthleteId) selectAthlete(null);
+      await refreshAthletes();
+    } catch (error) {
+      console.error('Failed to delete athlete profile:', error);
+    }
+  };
+
+  const storePlan = async (plan: WorkoutPlan) => {
+    try {
+      const id = await savePlan(plan);
+      setUserParams(params => ({ ...params, plan: { ...plan, id } }));
+      await refreshPlans();
+    } catch (error) {
+      console.error('Failed to save workout plan:', error);
+      alert('Could not save the workout plan on this device.');
+    }
+  };
+
+  const removePlan = async (id: number) => {
+    try {
+      await deletePlan(id);
+      setUserParams(params => ({ ...params, plan: params.plan?.id === id ? null : params.plan }));
+      await refreshPlans();
+    } catch (error) {
+      console.error('Failed to delete workout plan:', error);
+    }
+  };
+
+  // Everything on screen is derived from the loaded points and the current parameters
+  const cleaned = useMemo(
+    () => tcxData ? cleanHeartRate(tcxData, userParams.cleaning, userParams.maxGap, markers.pauses) : null,
+    [tcxData, userParams.cleaning, userParams.maxGap, markers]
+  );
+  const analysis = useMemo(
+    () => cleaned ? analyzeHIIT(cleaned.data, userParams, markers, intervalEdits, rrIntervals) : null,
+    [cleaned, userParams, markers, intervalEdits, rrIntervals]
+  );
+  const chartData = useMemo(() => cleaned && analysis ? buildChartData(cleaned.data, analysis.zones) : [], [cleaned, analysis]);
+  const displayedChartData = useMemo(
+    () => showRawOverlay && tcxData ? overlayRawSeries(chartData, tcxData) : chartData,
+    [showRawOverlay, tcxData, chartData]
+  );
+  const phases = useMemo(
+    () => cleaned && analysis ? sessionPhases(analysis, cleaned.data[cleaned.data.length - 1].time) : [],
+    [cleaned, analysis]
+  );
+  // Each compared session is analyzed with the parameters it was saved with
+  const comparison = useMemo((): ComparedSession[] => {
+    if (!showCompare) return [];
+    return sessions
+      .filter(session => session.id !== undefined && compareIds.includes(session.id))
+      .map(session => {
+        const params = { ...userParams, ...session.params };
+        const sessionMarkers = { laps: session.laps ?? [], pauses: session.pauses ?? [] };
+        const data = cleanHeartRate(session.points, params.cleaning, params.maxGap, sessionMarkers.pauses).data;
+        return { session, data, analysis: analyzeHIIT(data, params, sessionMarkers, session.intervalEdits ?? null, session.rrIntervals) };
+      });
+  }, [showCompare, sessions, compareIds, userParams]);
+  const selectionStats = useMemo(
+    () => cleaned && analysis && selection
+      ? rangeStats(cleaned.data, selection.from * 60, selection.to * 60, analysis.zones, userParams.maxGap)
+      : null,
+    [cleaned, analysis, selection, userParams.maxGap]
+  );
+  const paramIssues = useMemo(() => validateParams(cleaned?.data ?? [], userParams, markers.laps), [cleaned, userParams, markers]);
+
+  const openSession = (session: StoredSession) => {
+    // Sessions saved before a parameter existed fall back to its current value
+    setUserParams({ ...userParams, ...session.params });
+    setActiveAthleteId(session.params.athleteId ?? null);
+    setTcxData(session.points);
+    setMarkers({ laps: session.laps ?? [], pauses: session.pauses ?? [] });
+    setRRIntervals(session.rrIntervals ?? []);
+    setCurrentSessionId(session.id ?? null);
+    setIntervalEdits(session.intervalEdits ?? null);
+    setZoomRange(null);
+    setSelection(null);
   };
 
-  const analyzeHIIT = (data: TrackPointData[], params: any) => {
-    const zones = calculateHRZones(params.maxHR);
-    const totalDuration = data[data.length - 1].time;
+  const removeSession = async (id: number) => {
+    try {
+      await deleteSession(id);
+      if (id === currentSessionId) setCurrentSessionId(null);
+      setCompareIds(ids => ids.filter(compareId => compareId !== id));
+      await refreshSessions();
+    } catch (error) {
+      console.error('Failed to delete session:', error);
+    }
+  };
+
+  // Applies corrected boundaries right away and keeps them with the open session
+  const storeIntervalEdits = async (windows: IntervalWindow[] | null) => {
+    setIntervalEdits(windows);
+    const session = sessions.find(stored => stored.id === currentSessionId);
+    if (!session) return;
+    try {
+      const sessionMarkers = { laps: session.laps ?? [], pauses: session.pauses ?? [] };
+      const data = cleanHeartRate(session.points, session.params.cleaning, session.params.maxGap, sessionMarkers.pauses).data;
+      await saveSession({
+        ...session,
+        intervalEdits: windows ?? undefined,
+        analysis: analyzeHIIT(data, { ...userParams, ...session.params }, sessionMarkers, windows, session.rrIntervals)
+      });
+      await refreshSessions();
+    } catch (error) {
+      console.error('Failed to save interval corrections:', error);
+      alert('Could not save the interval corrections on this device.');
+    }
+  };
+
+  // Parses, analyzes and stores one file with the parameters in effect for it
+  const importSession = async (file: File): Promise<StoredSession> => {
+    console.log('File selected:', file.name, 'Type:', file.type, 'Size:', file.size);
+    const activity = await importActivity(file);
+    console.log('Activity parsed:', activity.points.length, 'points');
+    return storeActivity(activity, file.name);
+  };
+
+  // Analyzes and stores an imported or live-recorded activity
+  const storeActivity = async (activity: ParsedActivity, fileName: string): Promise<StoredSession> => {
+    const data = activity.points;
     
-    // Define HIIT phases based on user parameters
-    const warmupEnd = params.warmupTime;
-    const cooldownStart = totalDuration - params.cooldownTime;
-    const cycleLength = params.activePhase + params.recoveryPhase;
-    const hiitDuration = cooldownStart - warmupEnd;
+    // Use the athlete's age, weight and heart rates as they were on the day of the session
+    const active = athletes.find(athlete => athlete.id === activeAthleteId);
+    const params = active ? { ...userParams, ...athleteParams(active, data[0].timestamp) } : userParams;
+    const session: StoredSession = {
+      fileName,
+      recordedAt: data[0].timestamp,
+      savedAt: new Date(),
+      points: data,
+      laps: activity.laps,
+      pauses: activity.pauses,
+      rrIntervals: activity.rrIntervals,
+      params,
+      analysis: analyzeHIIT(cleanHeartRate(data, params.cleaning, params.maxGap, activity.pauses).data, params, activity, null, activity.rrIntervals)
+    };
     
-    const intervals = [];
-    let recoveryScores = [];
+    // Keep the session so it can be reopened and trended without the file
+    try {
+      session.id = await saveSession(session);
+    } catch (error) {
+      console.error('Failed to save session to history:', error);
+    }
+    return session;
+  };
+
+  const finishLiveSession = async (activity: ParsedActivity, name: string) => {
+    setIsLoading(true);
+    try {
+      openSession(await storeActivity(activity, name));
+      await refreshSessions();
+      setShowLive(false);
+    } catch (error) {
+      console.error('Failed to analyze live session:', error);
+      alert('Could not analyze the live recording.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const updateBatchItem = (key: string, changes: Partial<BatchItem>) => {
+    setBatch(items => items.map(item => item.key === key ? { ...item, ...changes } : item));
+  };
+
+  const processFiles = async (files: File[]) => {
+    if (files.length === 0) return;
     
-    // Analyze each interval
-    for (let i = 0; i < params.intervals; i++) {
-      const intervalStart = warmupEnd + (i * cycleLength);
-      const activeEnd = intervalStart + params.activePhase;
-      const recoveryEnd = intervalStart + cycleLength;
-      
-      if (recoveryEnd <= cooldownStart) {
-        const activeData = data.filter((d: any) => d.time >= intervalStart && d.time <= activeEnd);
-        const recoveryData = data.filter((d: any) => d.time > activeEnd && d.time <= recoveryEnd);
-        
-        if (activeData.length > 0 && recoveryData.length > 0) {
-          const maxActive = Math.max(...activeData.map(d => d.heartRate));
-          const minRecovery = Math.min(...recoveryData.map(d => d.heartRate));
-          const recoveryScore = maxActive - minRecovery;
-          
-          recoveryScores.push({
-            interval: i + 1,
-            maxActive,
-            minRecovery,
-            recoveryScore
-          });
-          
-          intervals.push({
-            interval: i + 1,
-            start: intervalStart,
-            activeEnd,
-            recoveryEnd,
-            maxActive,
-            minRecovery,
-            recoveryScore
-          });
-        }
+    if (files.length === 1) {
+      setIsLoading(true);
+      try {
+        openSession(await importSession(files[0]));
+        console.log('Analysis complete');
+      } catch (error) {
+        reportImportError(error);
       }
+      setIsLoading(false);
+      await refreshSessions();
+      return;
     }
     
-    // Calculate cumulative recovery score
-    const cumulativeRecoveryScore = recoveryScores.reduce((sum, score) => sum + score.recoveryScore, 0);
-    
-    // Calculate zone distribution
-    const zoneDistribution = Object.keys(zones).reduce((acc, zone) => {
-      acc[zone] = 0;
-      return acc;
-    }, {});
-    
-    data.forEach(point => {
-      const hr = point.heartRate;
-      Object.keys(zones).forEach(zone => {
-        if (hr >= zones[zone as keyof typeof zones].min && hr <= zones[zone as keyof typeof zones].max) {
-          zoneDistribution[zone as keyof typeof zoneDistribution]++;
-        }
-      });
-    });
-    
-    // Calculate average heart rate and perceived intensity
-    const avgHR = Math.round(data.reduce((sum, d) => sum + d.heartRate, 0) / data.length);
-    const perceivedIntensity = Math.round((avgHR / params.maxHR) * 100);
+    // Several files: parse them one after another and list the results to pick from
+    const stamp = Date.now();
+    const items: BatchItem[] = files.map((file, index) => ({
+      key: `${stamp}-${index}`,
+      fileName: file.webkitRelativePath || file.name,
+      status: 'queued'
+    }));
+    setBatch(items);
     
-    // Calculate calories
-    const durationMinutes = totalDuration / 60;
-    const calories = calculateCalories(avgHR, params.weight, durationMinutes, params.age);
-    
-    return {
-      zones,
-      intervals,
-      recoveryScores,
-      cumulativeRecoveryScore,
-      zoneDistribution,
-      avgHR,
-      perceivedIntensity,
-      calories,
-      totalDuration: Math.round(durationMinutes),
-      warmupEnd,
-      cooldownStart
-    };
+    for (let i = 0; i < files.length; i++) {
+      updateBatchItem(items[i].key, { status: 'parsing' });
+      try {
+        const session = await importSession(files[i]);
+        updateBatchItem(items[i].key, { status: 'done', session });
+      } catch (error) {
+        console.error(`Activity import error in ${files[i].name}:`, error);
+        updateBatchItem(items[i].key, {
+          status: 'failed',
+          error: error instanceof Error ? error.message : 'Error importing activity file.'
+        });
+      }
+    }
+    await refreshSessions();
   };
 
-  const handleFileUpload = async (event) => {
-    const file = event.target.files[0];
-    if (!file) return;
-    
-    console.log('File selected:', file.name, 'Type:', file.type, 'Size:', file.size);
-    
-    if (!file.name.toLowerCase().endsWith('.tcx')) {
-      alert('Please select a valid TCX file (.tcx extension)');
+  const handleFileUpload = (event: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    // Allow picking the same file again
+    event.target.value = '';
+    processFiles(files);
+  };
+
+  const handleDrop = async (event: DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+    // Unreadable folders reject while the dropped entries are walked
+    let files: File[];
+    try {
+      files = await collectDroppedFiles(event.dataTransfer, hasActivityExtension);
+    } catch (error) {
+      reportImportError(error);
+      return;
+    }
+    processFiles(files);
+  };
+
+  // Keeps the import pipeline used for launched files in step with the current parameters
+  const processFilesRef = useRef(processFiles);
+  useEffect(() => {
+    processFilesRef.current = processFiles;
+  });
+
+  useEffect(() => {
+    if (launchedFiles.length === 0) return;
+    setLaunchedFiles([]);
+    processFilesRef.current(launchedFiles);
+  }, [launchedFiles]);
+
+  // Stacks the heart-rate chart and the zone pie into one SVG document
+  const composeDashboardCharts = () =>
+    composeChartSvg([chartRef.current, pieRef.current], `HIIT Training Analysis - ${new Date().toLocaleDateString()}`);
+
+  const exportAsImage = async (format: 'png' | 'svg') => {
+    const svg = composeDashboardCharts();
+    if (!svg) {
+      alert('No charts to export');
       return;
     }
 
-    setIsLoading(true);
     try {
-      console.log('Starting TCX parsing...');
-      const data = await parseTCX(file);
-      console.log('TCX data parsed:', data.length, 'points');
-      
-      if (data.length === 0) {
-        alert('No heart rate data found in the TCX file. Please check that your file contains heart rate information.');
-        setIsLoading(false);
-        return;
+      const blob = format === 'svg'
+        ? new Blob([svg.markup], { type: 'image/svg+xml;charset=utf-8' })
+        : await canvasToBlob(await svgToCanvas(svg), 'image/png');
+      if (!downloadBlob(blob, datedFileName('hiit-analysis-charts', format))) {
+        alert('Image download failed.');
       }
-      
-      setTcxData(data);
-      
-      // Re-analyze with current parameters when file changes
-      const analysisResult = analyzeHIIT(data, userParams);
-      setAnalysis(analysisResult);
-      
-      // Create chart data with zone coloring
-      const zones = calculateHRZones(userParams.maxHR);
-      const chartData = data.map(point => ({
-        ...point,
-        timeMinutes: Math.round(point.time / 60 * 10) / 10,
-        zone: Object.keys(zones).find(zone => 
-          point.heartRate >= zones[zone].min && point.heartRate <= zones[zone].max
-        ) || 'zone1'
-      }));
-      
-      setChartData(chartData);
-      
-      console.log('Analysis complete');
-      
     } catch (error) {
-      console.error('TCX parsing error:', error);
-      alert('Error parsing TCX file: ' + error.message + '. Please ensure the file is a valid TCX format with heart rate data.');
+      console.error('Image export failed:', error);
+      alert(`Image export failed: ${error instanceof Error ? error.message : error}`);
     }
-    setIsLoading(false);
   };
 
-  const exportAsImage = () => {
-    // Since html2canvas doesn't work reliably in this environment, 
-    // we'll provide the text export with a helpful message
-    alert('Image export is not supported in this environment. Generating detailed text report instead.');
-    exportAsText();
+  const exportAsPdf = async () => {
+    if (!analysis) {
+      alert('No analysis data to export');
+      return;
+    }
+
+    try {
+      const svg = composeDashboardCharts();
+      const image = svg ? await canvasToPdfImage(await svgToCanvas(svg)) : null;
+      const pdf = buildPdf({
+        title: 'HIIT Training Analysis Report',
+        image,
+        lines: buildReportText().split('\n')
+      });
+      if (!downloadBlob(pdf, datedFileName('hiit-analysis-report', 'pdf'))) {
+        alert('PDF download failed.');
+      }
+    } catch (error) {
+      console.error('PDF export failed:', error);
+      alert(`PDF export failed: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  const downloadExport = (content: string, type: string, fileName: string) => {
+    if (!downloadBlob(new Blob([content], { type }), fileName)) {
+      alert('Download failed.');
+    }
+  };
+
+  const exportAsCsv = () => {
+    if (!analysis) return;
+    downloadExport(chartDataToCsv(chartData, analysis.zones, phases), 'text/csv;charset=utf-8', datedFileName('hiit-analysis-data', 'csv'));
+  };
+
+  const exportAsJson = () => {
+    if (!analysis) return;
+    const source = sessions.find(session => session.id === currentSessionId)?.fileName ?? null;
+    downloadExport(analysisToJson(analysis, userParams, source), 'application/json', datedFileName('hiit-analysis', 'json'));
   };
 
+  const exportAsTcx = () => {
+    if (!cleaned || !analysis) return;
+    try {
+      downloadExport(writeTCX(cleaned.data, phases, analysis.calories), 'application/vnd.garmin.tcx+xml', datedFileName('hiit-workout', 'tcx'));
+    } catch (error) {
+      console.error('TCX export failed:', error);
+      alert(`TCX export failed: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  // Shared by the text and PDF exports
+  const buildReportText = () => analysis
+    ? buildReport(analysis, userParams, {
+      cleaning: cleaned && userParams.cleaning.enabled ? cleaned.report : null,
+      corrected: intervalEdits !== null
+    })
+    : '';
+
   const exportAsText = () => {
     if (!analysis) {
       alert('No analysis data to export');
       return;
     }
-    
-    // Create a comprehensive text report with better formatting
-    const reportText = `
-╔════════════════════════════════════════════════════════════════════════════════╗
-║                            HIIT TRAINING ANALYSIS REPORT                       ║
-║                          Generated: ${new Date().toLocaleString()}                         ║
-╚════════════════════════════════════════════════════════════════════════════════╝
-
-📊 WORKOUT SUMMARY
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-  • Average Heart Rate:        ${analysis.avgHR} bpm
-  • Perceived Intensity:       ${analysis.perceivedIntensity}%
-  • Estimated Calories:        ${analysis.calories} kcal
-  • Total Duration:            ${analysis.totalDuration} minutes
-  • Cumulative Recovery Score: ${analysis.cumulativeRecoveryScore}
-
-❤️ HEART RATE ZONES
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-${Object.entries(analysis.zones).map(([key, zone]) => {
-  const timeInZone = analysis.zoneDistribution[key] || 0;
-  const percentage = Math.round((timeInZone / chartData.length) * 100);
-  return `  Zone ${zone.name.padEnd(20)} ${zone.min.toString().padStart(3)}-${zone.max.toString().padEnd(3)} bpm  (${percentage.toString().padStart(2)}% of workout)`;
-}).join('\n')}
-
-🏃 TRAINING PARAMETERS
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-  • Maximum Heart Rate:    ${userParams.maxHR} bpm
-  • Age:                   ${userParams.age} years
-  • Weight:                ${userParams.weight} kg
-  • Warmup Duration:       ${Math.round(userParams.warmupTime / 60)} minutes
-  • Active Phase:          ${userParams.activePhase} seconds
-  • Recovery Phase:        ${userParams.recoveryPhase} seconds
-  • Number of Intervals:   ${userParams.intervals}
-  • Cooldown Duration:     ${Math.round(userParams.cooldownTime / 60)} minutes
-
-📈 INTERVAL-BY-INTERVAL RECOVERY ANALYSIS
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-${analysis.recoveryScores.map(score => 
-  `  Interval ${score.interval.toString().padStart(2)}: ${score.maxActive.toString().padStart(3)} bpm → ${score.minRecovery.toString().padStart(3)} bpm (Recovery Score: ${score.recoveryScore.toString().padStart(2)})`
-).join('\n')}
-                                                           ─────────────────────
-                                                Total Score: ${analysis.cumulativeRecoveryScore.toString().padStart(3)}
-
-💡 PERFORMANCE INSIGHTS
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-${analysis.perceivedIntensity >= 85 ? '  🔥 High Intensity: Excellent effort! You maintained a very high intensity.' :
-  analysis.perceivedIntensity >= 70 ? '  ⚡ Moderate-High Intensity: Good workout intensity for HIIT training.' :
-  '  📈 Moderate Intensity: Consider pushing harder during active phases for better HIIT benefits.'}
-
-${analysis.cumulativeRecoveryScore >= 150 ? '  💪 Excellent Recovery: Your cardiovascular fitness is showing great recovery capacity.' :
-  analysis.cumulativeRecoveryScore >= 100 ? '  👍 Good Recovery: Solid recovery between intervals, keep building endurance.' :
-  '  🎯 Building Recovery: Focus on improving recovery between intervals as fitness develops.'}
-
-${(() => {
-  const zone4And5Time = (analysis.zoneDistribution.zone4 || 0) + (analysis.zoneDistribution.zone5 || 0);
-  const zone4And5Percentage = Math.round((zone4And5Time / chartData.length) * 100);
-  return zone4And5Percentage >= 40 ? '  🚀 High-Intensity Focus: Great time spent in high-intensity zones (80%+ max HR).' :
-         zone4And5Percentage >= 20 ? '  ⭐ Balanced Training: Good mix of intensity zones for overall fitness.' :
-         '  📊 Endurance Focus: More time in lower zones - consider increasing intensity for HIIT benefits.';
-})()}
-
-📋 RECOMMENDATIONS FOR NEXT SESSION
-━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-${analysis.recoveryScores.some(score => score.recoveryScore < 15) ? 
-  '  • Consider extending recovery phases or reducing active phase intensity' : 
-  '  • Recovery looks good - you could potentially increase active phase intensity'}
-${analysis.avgHR < userParams.maxHR * 0.75 ? 
-  '  • Try to push harder during active phases to reach higher heart rate zones' : 
-  '  • Excellent intensity - maintain this effort level'}
-  • Track your cumulative recovery score over time to monitor fitness improvements
-  • Aim for consistent recovery scores across all intervals
-  • Ensure adequate hydration and nutrition for optimal performance
-
-═══════════════════════════════════════════════════════════════════════════════════
-Generated by HIIT Training Analyzer - Advanced Heart Rate Analysis
-Report saved: ${new Date().toISOString().split('T')[0]}
-═══════════════════════════════════════════════════════════════════════════════════
-`;
+
+    const reportText = buildReportText();
 
     // Multiple fallback methods for export
-    const fileName = `hiit-analysis-report-${new Date().toISOString().split('T')[0]}.txt`;
+    const fileName = datedFileName('hiit-analysis-report', 'txt');
     
     // Method 1: Modern download approach
-    const tryDownload = () => {
-      try {
-        const blob = new Blob([reportText], { type: 'text/plain;charset=utf-8' });
-        const url = URL.createObjectURL(blob);
-        const link = document.createElement('a');
-        link.href = url;
-        link.download = fileName;
-        link.style.display = 'none';
-        
-        document.body.appendChild(link);
-        link.click();
-        
-        // Cleanup
-        setTimeout(() => {
-          if (document.body.contains(link)) {
-            document.body.removeChild(link);
-          }
-          URL.revokeObjectURL(url);
-        }, 100);
-        
-        return true;
-      } catch (error) {
-        console.error('Download method failed:', error);
-        return false;
-      }
-    };
+    const tryDownload = () =>
+      downloadBlob(new Blob([reportText], { type: 'text/plain;charset=utf-8' }), fileName);
 
     // Method 2: Clipboard fallback
     const tryClipboard = async () => {
@@ -491,12 +592,16 @@ Report saved: ${new Date().toISOString().split('T')[0]}
           width: 100%; height: 400px; font-family: monospace; font-size: 12px; 
           border: 1px solid #d1d5db; border-radius: 6px; padding: 12px;
           background: #f9fafb; resize: none;
-        ">${reportText}</textarea>
+        "></textarea>
         <p style="margin-top: 12px; color: #6b7280; font-size: 14px;">
           💡 Select all text and copy manually, or use the buttons above
         </p>
       `;
       
+      // The report holds plan, athlete and file names, so it goes in as text, never as markup
+      const reportArea = content.querySelector<HTMLTextAreaElement>('#reportText');
+      if (reportArea) reportArea.value = reportText;
+
       modal.appendChild(content);
       document.body.appendChild(modal);
       
@@ -507,31 +612,31 @@ Report saved: ${new Date().toISOString().split('T')[0]}
         }
       };
       
-      modal.querySelector('#closeModal').addEventListener('click', closeModal);
+      modal.querySelector<HTMLButtonElement>('#closeModal')?.addEventListener('click', closeModal);
       modal.addEventListener('click', (e) => {
         if (e.target === modal) closeModal();
       });
       
-      modal.querySelector('#copyText').addEventListener('click', async () => {
+      modal.querySelector<HTMLButtonElement>('#copyText')?.addEventListener('click', async () => {
         try {
           await navigator.clipboard.writeText(reportText);
           alert('✅ Report copied to clipboard!');
-        } catch (error) {
+        } catch {
           alert('❌ Copy failed. Please select and copy the text manually.');
         }
       });
       
-      modal.querySelector('#selectAll').addEventListener('click', () => {
-        const textarea = modal.querySelector('#reportText');
-        textarea.select();
-        textarea.setSelectionRange(0, 99999); // For mobile devices
+      modal.querySelector<HTMLButtonElement>('#selectAll')?.addEventListener('click', () => {
+        const textarea = modal.querySelector<HTMLTextAreaElement>('#reportText');
+        textarea?.select();
+        textarea?.setSelectionRange(0, 99999); // For mobile devices
       });
       
       // Auto-select text for easy copying
       setTimeout(() => {
-        const textarea = modal.querySelector('#reportText');
-        textarea.focus();
-        textarea.select();
+        const textarea = modal.querySelector<HTMLTextAreaElement>('#reportText');
+        textarea?.focus();
+        textarea?.select();
       }, 100);
     };
 
@@ -562,18 +667,66 @@ Report saved: ${new Date().toISOString().split('T')[0]}
     executeExport();
   };
 
-  const getZoneColor = (heartRate) => {
-    if (!analysis) return '#8884d8';
-    
-    const zones = analysis.zones;
-    for (const [key, zone] of Object.entries(zones)) {
-      if (heartRate >= zone.min && heartRate <= zone.max) {
-        return zone.color;
-      }
+  const exportOptions: ExportOption[] = [
+    { label: 'Text Report', description: 'Formatted summary with insights', onSelect: exportAsText },
+    { label: 'PDF Report', description: 'Printable report with charts', onSelect: exportAsPdf },
+    { label: 'PNG Image', description: 'Heart rate and zone charts', onSelect: () => exportAsImage('png') },
+    { label: 'SVG Image', description: 'Heart rate and zone charts, scalable', onSelect: () => exportAsImage('svg') },
+    { label: 'CSV Data', description: 'Samples with zone and phase columns', onSelect: exportAsCsv },
+    { label: 'JSON Data', description: 'Full analysis with training parameters', onSelect: exportAsJson },
+    { label: 'TCX Workout', description: 'Cleaned track with a lap per phase', onSelect: exportAsTcx }
+  ];
+
+
+  const issueFor = (field: ParamField) => paramIssues.find(issue => issue.field === field);
+
+  const inputClass = (field: ParamField) =>
+    `w-full px-3 py-2 border ${issueFor(field) ? 'border-red-500' : 'border-gray-300'} rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-100 disabled:text-gray-400`;
+
+  const editableWindows = analysis ? intervalEdits ?? toWindows(analysis.intervals) : [];
+  const sessionSeconds = cleaned && cleaned.data.length > 0 ? cleaned.data[cleaned.data.length - 1].time : 0;
+  const previewWindows = boundaryDrag
+    ? moveBoundary(editableWindows, boundaryDrag.index, boundaryDrag.edge, boundaryDrag.minutes * 60, sessionSeconds)
+    : editableWindows;
+
+  // In edit mode a press grabs the nearest boundary marker, otherwise it starts a range selection
+  const handleChartMouseDown = (minutes: number | null) => {
+    if (minutes === null) return;
+    if (editingIntervals) {
+      const visibleSeconds = zoomRange ? (zoomRange.to - zoomRange.from) * 60 : sessionSeconds;
+      const hit = nearestBoundary(editableWindows, minutes * 60, Math.max(3, visibleSeconds * 0.015));
+      if (hit) setBoundaryDrag({ index: hit.index, edge: hit.edge, minutes });
+      return;
     }
-    return '#8884d8';
+    setDragRange({ from: minutes, to: minutes });
   };
 
+  const handleChartMouseMove = (minutes: number | null) => {
+    if (minutes === null) return;
+    if (boundaryDrag) {
+      setBoundaryDrag({ ...boundaryDrag, minutes });
+    } else if (dragRange) {
+      setDragRange({ ...dragRange, to: minutes });
+    }
+  };
+
+  const handleChartMouseUp = () => {
+    if (boundaryDrag) {
+      storeIntervalEdits(previewWindows);
+      setBoundaryDrag(null);
+      return;
+    }
+    // A click without dragging clears the selection
+    setSelection(dragRange && dragRange.from !== dragRange.to ? orderedRange(dragRange.from, dragRange.to) : null);
+    setDragRange(null);
+  };
+
+  const hasDrift = analysis?.intervals.some(interval => interval.drift);
+  const hasTargets = (analysis?.compliance.scoredIntervals ?? 0) > 0;
+  const displayZones = analysis?.zones ?? calculateHRZones(userParams.maxHR, userParams.zoneModel, userParams.restingHR);
+  const channelColumns = analysis ? activeChannelColumns(analysis) : [];
+  const shownChannel = secondaryChannel && analysis?.channels.includes(secondaryChannel) ? secondaryChannel : null;
+
   return (
     <div className="min-h-screen bg-gray-50 p-6">
       <div className="max-w-7xl mx-auto">
@@ -587,32 +740,78 @@ Report saved: ${new Date().toISOString().split('T')[0]}
               </h1>
               <p className="text-gray-600 mt-2">Advanced heart rate training analysis for HIIT workouts</p>
             </div>
-            {tcxData && (
-              <div className="flex gap-2">
-                <button
-                  onClick={exportAsText}
-                  className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
-                >
-                  <Download size={20} />
-                  Export Report
-                </button>
-              </div>
-            )}
+            <div className="flex gap-2">
+              <button
+                onClick={() => setShowLive(!showLive)}
+                className="flex items-center gap-2 px-4 py-2 bg-gray-100 text-gray-800 rounded-lg hover:bg-gray-200 transition-colors"
+              >
+                <Bluetooth size={20} />
+                Live
+              </button>
+              <button
+                onClick={() => setShowHistory(!showHistory)}
+                className="flex items-center gap-2 px-4 py-2 bg-gray-100 text-gray-800 rounded-lg hover:bg-gray-200 transition-colors"
+              >
+                <History size={20} />
+                History ({sessions.length})
+              </button>
+              {tcxData && <ExportMenu options={exportOptions} />}
+            </div>
           </div>
         </div>
 
+        {showLive && (
+          <LivePanel params={userParams} onFinish={finishLiveSession} onClose={() => setShowLive(false)} />
+        )}
+
+        {showHistory && (
+          <HistoryView
+            sessions={sessions}
+            currentSessionId={currentSessionId}
+            onOpen={openSession}
+            onDelete={removeSession}
+            compareIds={compareIds}
+            onToggleCompare={(id) => setCompareIds(ids => ids.includes(id) ? ids.filter(compareId => compareId !== id) : [...ids, id])}
+            onCompare={() => setShowCompare(true)}
+          />
+        )}
+
+        {showCompare && comparison.length >= 2 && (
+          <CompareView entries={comparison} onClose={() => setShowCompare(false)} />
+        )}
+
+        {/* Athlete Profile */}
+        <AthletePanel
+          athletes={athletes}
+          activeAthleteId={activeAthleteId}
+          onSelect={selectAthlete}
+          onSave={storeAthlete}
+          onDelete={removeAthlete}
+        />
+
         {/* Parameters Input */}
         <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
           <h2 className="text-xl font-semibold text-gray-800 mb-4">Training Parameters</h2>
-          <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-8 gap-4">
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">Max HR</label>
               <input
                 type="number"
                 value={userParams.maxHR}
                 onChange={(e) => setUserParams({...userParams, maxHR: parseInt(e.target.value) || 175})}
-                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                className={inputClass('maxHR')}
               />
+              {issueFor('maxHR') && <p className="mt-1 text-xs text-red-600">{issueFor('maxHR')?.message}</p>}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Resting HR</label>
+              <input
+                type="number"
+                value={userParams.restingHR}
+                onChange={(e) => setUserParams({...userParams, restingHR: parseInt(e.target.value) || 60})}
+                className={inputClass('restingHR')}
+              />
+              {issueFor('restingHR') && <p className="mt-1 text-xs text-red-600">{issueFor('restingHR')?.message}</p>}
             </div>
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">Age</label>
@@ -620,8 +819,9 @@ Report saved: ${new Date().toISOString().split('T')[0]}
                 type="number"
                 value={userParams.age}
                 onChange={(e) => setUserParams({...userParams, age: parseInt(e.target.value) || 51})}
-                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                className={inputClass('age')}
               />
+              {issueFor('age') && <p className="mt-1 text-xs text-red-600">{issueFor('age')?.message}</p>}
             </div>
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">Weight (kg)</label>
@@ -629,8 +829,20 @@ Report saved: ${new Date().toISOString().split('T')[0]}
                 type="number"
                 value={userParams.weight}
                 onChange={(e) => setUserParams({...userParams, weight: parseInt(e.target.value) || 86})}
-                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                className={inputClass('weight')}
               />
+              {issueFor('weight') && <p className="mt-1 text-xs text-red-600">{issueFor('weight')?.message}</p>}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Sex</label>
+              <select
+                value={userParams.sex}
+                onChange={(e) => setUserParams({...userParams, sex: e.target.value as Sex})}
+                className={inputClass('sex')}
+              >
+                <option value="male">Male</option>
+                <option value="female">Female</option>
+              </select>
             </div>
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">Warmup (s)</label>
@@ -638,8 +850,10 @@ Report saved: ${new Date().toISOString().split('T')[0]}
                 type="number"
                 value={userParams.warmupTime}
                 onChange={(e) => setUserParams({...userParams, warmupTime: parseInt(e.target.value) || 300})}
-                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                className={inputClass('warmupTime')}
+                disabled={userParams.plan !== null}
               />
+              {issueFor('warmupTime') && <p className="mt-1 text-xs text-red-600">{issueFor('warmupTime')?.message}</p>}
             </div>
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">Active (s)</label>
@@ -647,8 +861,10 @@ Report saved: ${new Date().toISOString().split('T')[0]}
                 type="number"
                 value={userParams.activePhase}
                 onChange={(e) => setUserParams({...userParams, activePhase: parseInt(e.target.value) || 120})}
-                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                className={inputClass('activePhase')}
+                disabled={userParams.plan !== null}
               />
+              {issueFor('activePhase') && <p className="mt-1 text-xs text-red-600">{issueFor('activePhase')?.message}</p>}
             </div>
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">Recovery (s)</label>
@@ -656,8 +872,10 @@ Report saved: ${new Date().toISOString().split('T')[0]}
                 type="number"
                 value={userParams.recoveryPhase}
                 onChange={(e) => setUserParams({...userParams, recoveryPhase: parseInt(e.target.value) || 120})}
-                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                className={inputClass('recoveryPhase')}
+                disabled={userParams.plan !== null}
               />
+              {issueFor('recoveryPhase') && <p className="mt-1 text-xs text-red-600">{issueFor('recoveryPhase')?.message}</p>}
             </div>
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">Intervals</label>
@@ -665,8 +883,10 @@ Report saved: ${new Date().toISOString().split('T')[0]}
                 type="number"
                 value={userParams.intervals}
                 onChange={(e) => setUserParams({...userParams, intervals: parseInt(e.target.value) || 6})}
-                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                className={inputClass('intervals')}
+                disabled={userParams.plan !== null}
               />
+              {issueFor('intervals') && <p className="mt-1 text-xs text-red-600">{issueFor('intervals')?.message}</p>}
             </div>
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">Cooldown (s)</label>
@@ -674,38 +894,121 @@ Report saved: ${new Date().toISOString().split('T')[0]}
                 type="number"
                 value={userParams.cooldownTime}
                 onChange={(e) => setUserParams({...userParams, cooldownTime: parseInt(e.target.value) || 180})}
-                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                className={inputClass('cooldownTime')}
+                disabled={userParams.plan !== null}
               />
+              {issueFor('cooldownTime') && <p className="mt-1 text-xs text-red-600">{issueFor('cooldownTime')?.message}</p>}
             </div>
           </div>
+          <div className="mt-4 flex flex-wrap items-center gap-3">
+            <label htmlFor="interval-detection" className="text-sm font-medium text-gray-700">Interval Detection</label>
+            <select
+              id="interval-detection"
+              value={userParams.intervalDetection}
+              onChange={(e) => setUserParams({...userParams, intervalDetection: e.target.value as IntervalDetectionMode})}
+              className="px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              {Object.entries(DETECTION_LABELS).map(([mode, label]) => (
+                <option key={mode} value={mode}>{label}</option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500">
+              Detection finds work and rest phases from HR rises and drops, and reports how far each one drifted from the plan.
+              Lap markers follow the laps recorded by the device.
+            </p>
+            {issueFor('intervalDetection') && <p className="text-xs text-red-600">{issueFor('intervalDetection')?.message}</p>}
+            {intervalEdits && (
+              <p className="text-xs text-amber-700">
+                This session uses hand-corrected boundaries; reset them under Edit intervals on the chart to apply detection again.
+              </p>
+            )}
+            <label htmlFor="max-gap" className="text-sm font-medium text-gray-700 ml-auto">Max gap (s)</label>
+            <input
+              id="max-gap"
+              type="number"
+              value={userParams.maxGap}
+              onChange={(e) => setUserParams({...userParams, maxGap: parseInt(e.target.value) || DEFAULT_MAX_GAP})}
+              className="w-24 px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              title="Longer gaps between samples (pauses, dropouts) only count this many seconds towards time in zone"
+            />
+          </div>
+          <div className="mt-4 flex flex-wrap items-center gap-3">
+            {(['active', 'recovery'] as const).map(side => (
+              <Fragment key={side}>
+                <label htmlFor={`${side}-target`} className="text-sm font-medium text-gray-700">
+                  {side === 'active' ? 'Active target' : 'Recovery target'}
+                </label>
+                <select
+                  id={`${side}-target`}
+                  value={userParams.targets[side] ?? ''}
+                  onChange={(e) => setUserParams({...userParams, targets: {...userParams.targets, [side]: e.target.value || null}})}
+                  className={`px-3 py-2 border ${issueFor('targets') ? 'border-red-500' : 'border-gray-300'} rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent`}
+                >
+                  <option value="">No target</option>
+                  {Object.keys(displayZones).map(key => (
+                    <option key={key} value={key}>{targetLabel(key, displayZones, side)}</option>
+                  ))}
+                </select>
+              </Fragment>
+            ))}
+            <p className="text-xs text-gray-500">Applied to the uniform schedule; with a workout plan each step sets its own target, and steps without one are not scored.</p>
+            {issueFor('targets') && <p className="text-xs text-red-600">{issueFor('targets')?.message}</p>}
+          </div>
+          <PlanEditor
+            plan={userParams.plan}
+            savedPlans={savedPlans}
+            zones={displayZones}
+            onChange={(plan) => setUserParams({...userParams, plan})}
+            onSave={storePlan}
+            onDelete={removePlan}
+            error={issueFor('plan')?.message}
+          />
+          <ZoneModelEditor
+            model={userParams.zoneModel}
+            maxHR={userParams.maxHR}
+            onChange={(zoneModel) => setUserParams({...userParams, zoneModel})}
+            error={issueFor('zoneModel')?.message}
+          />
+          <CleaningPanel
+            options={userParams.cleaning}
+            onChange={(cleaning) => setUserParams({...userParams, cleaning})}
+            report={cleaned?.report ?? null}
+            error={issueFor('cleaning')?.message}
+          />
         </div>
 
         {/* File Upload */}
         <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
           <h2 className="text-xl font-semibold text-gray-800 mb-4">Upload Training Data</h2>
-          <div className="border-2 border-dashed border-gray-300 rounded-lg p-8 text-center hover:border-blue-400 transition-colors">
+          <div
+            onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={handleDrop}
+            className={`border-2 border-dashed ${isDragging ? 'border-blue-500 bg-blue-50' : 'border-gray-300'} rounded-lg p-8 text-center hover:border-blue-400 transition-colors`}
+          >
             <Upload className="mx-auto text-gray-400 mb-4" size={48} />
             <div className="space-y-3">
-              <label htmlFor="tcx-upload" className="cursor-pointer inline-block">
+              <label htmlFor="activity-upload" className="cursor-pointer inline-block">
                 <span className="bg-blue-600 text-white px-6 py-3 rounded-lg hover:bg-blue-700 transition-colors">
-                  Choose TCX File
+                  Choose Activity Files
                 </span>
                 <input
-                  id="tcx-upload"
+                  id="activity-upload"
                   type="file"
-                  accept=".tcx,application/vnd.garmin.tcx+xml"
+                  multiple
+                  accept={`${acceptedExtensions},application/vnd.garmin.tcx+xml`}
                   onChange={handleFileUpload}
                   className="hidden"
                 />
               </label>
-              <p className="text-gray-500">or drag and drop your .TCX file here</p>
+              <p className="text-gray-500">or drag and drop .TCX, .FIT, .GPX, .CSV or RR interval (.rr, .hrv) files, or whole folders, here</p>
               <p className="text-sm text-gray-400">Supports files from Garmin, Polar, Suunto, and other fitness devices</p>
             </div>
             {isLoading && (
               <div className="mt-4">
                 <div className="inline-flex items-center">
                   <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600 mr-2"></div>
-                  <p className="text-blue-600">Processing TCX file...</p>
+                  <p className="text-blue-600">Processing activity file...</p>
                 </div>
               </div>
             )}
@@ -713,9 +1016,17 @@ Report saved: ${new Date().toISOString().split('T')[0]}
               <div className="mt-4 p-3 bg-green-50 rounded-lg">
                 <p className="text-green-700 font-medium">✓ File loaded successfully!</p>
                 <p className="text-sm text-green-600">{tcxData.length} heart rate data points processed</p>
+                {(markers.laps.length > 0 || markers.pauses.length > 0) && (
+                  <p className="text-sm text-green-600">
+                    {markers.laps.length} laps, {markers.pauses.length} pauses ({formatClock(pausedSeconds(markers.pauses))} excluded)
+                  </p>
+                )}
               </div>
             )}
           </div>
+          {batch.length > 0 && (
+            <BatchTable items={batch} currentSessionId={currentSessionId} onPick={openSession} />
+          )}
         </div>
 
         {/* Analysis Results */}
@@ -762,16 +1073,103 @@ Report saved: ${new Date().toISOString().split('T')[0]}
                   </div>
                 </div>
               </div>
+              
+              <div className="bg-white rounded-lg shadow-lg p-6">
+                <div className="flex items-center">
+                  <Gauge className="text-purple-500 mr-3" size={24} />
+                  <div>
+                    <p className="text-sm text-gray-600">Banister TRIMP</p>
+                    <p className="text-2xl font-bold text-gray-800">{analysis.load.banisterTrimp}</p>
+                  </div>
+                </div>
+              </div>
+              
+              <div className="bg-white rounded-lg shadow-lg p-6">
+                <div className="flex items-center">
+                  <BarChart3 className="text-indigo-500 mr-3" size={24} />
+                  <div>
+                    <p className="text-sm text-gray-600">Edwards TRIMP</p>
+                    <p className="text-2xl font-bold text-gray-800">{analysis.load.edwardsTrimp}</p>
+                  </div>
+                </div>
+              </div>
+              
+              <div className="bg-white rounded-lg shadow-lg p-6">
+                <div className="flex items-center">
+                  <Zap className="text-yellow-500 mr-3" size={24} />
+                  <div>
+                    <p className="text-sm text-gray-600">Training Effect</p>
+                    <p className="text-2xl font-bold text-gray-800">{analysis.load.trainingEffect.toFixed(1)}</p>
+                    <p className="text-xs text-gray-500">{trainingEffectLabel(analysis.load.trainingEffect)} · EPOC {analysis.load.peakEpoc} ml/kg</p>
+                  </div>
+                </div>
+              </div>
+              
+              {analysis.decoupling !== null && (
+                <div className="bg-white rounded-lg shadow-lg p-6">
+                  <div className="flex items-center">
+                    <Gauge className="text-violet-500 mr-3" size={24} />
+                    <div>
+                      <p className="text-sm text-gray-600">HR-Power Decoupling</p>
+                      <p className="text-2xl font-bold text-gray-800">{analysis.decoupling}%</p>
+                      <p className="text-xs text-gray-500">Drop in watts per beat, first vs second half</p>
+                    </div>
+                  </div>
+                </div>
+              )}
             </div>
 
             {/* Heart Rate Chart and Zone Distribution */}
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-6">
               {/* Heart Rate Chart */}
               <div className="lg:col-span-2 bg-white rounded-lg shadow-lg p-6">
-                <h2 className="text-xl font-semibold text-gray-800 mb-4">Heart Rate Analysis</h2>
-                <div ref={chartRef} style={{ width: '100%', height: 400 }}>
+                <div className="flex items-center justify-between mb-4">
+                  <h2 className="text-xl font-semibold text-gray-800">Heart Rate Analysis</h2>
+                  {analysis.channels.length > 0 && (
+                    <select
+                      value={shownChannel ?? ''}
+                      onChange={(e) => setSecondaryChannel(e.target.value as ChannelKey | '')}
+                      className="ml-auto mr-4 px-2 py-1 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      aria-label="Second axis"
+                    >
+                      <option value="">No second axis</option>
+                      {analysis.channels.map(key => (
+                        <option key={key} value={key}>{CHANNELS[key].label} ({CHANNELS[key].unit})</option>
+                      ))}
+                    </select>
+                  )}
+                  <label className="flex items-center gap-2 mr-4 text-sm text-gray-600">
+                    <input
+                      type="checkbox"
+                      checked={editingIntervals}
+                      onChange={(e) => setEditingIntervals(e.target.checked)}
+                    />
+                    Edit intervals
+                  </label>
+                  {userParams.cleaning.enabled && (
+                    <label className="flex items-center gap-2 text-sm text-gray-600">
+                      <input
+                        type="checkbox"
+                        checked={showRawOverlay}
+                        onChange={(e) => setShowRawOverlay(e.target.checked)}
+                      />
+                      Overlay raw signal
+                    </label>
+                  )}
+                </div>
+                <div ref={chartRef} style={{ width: '100%', height: 440 }}>
                   <ResponsiveContainer>
-                    <LineChart data={chartData} margin={{ top: 20, right: 30, left: 20, bottom: 60 }}>
+                    <LineChart
+                      data={displayedChartData}
+                      margin={{ top: 20, right: 30, left: 20, bottom: 60 }}
+                      onMouseDown={(state) => handleChartMouseDown(pointerMinutes(state))}
+                      onMouseMove={(state) => handleChartMouseMove(pointerMinutes(state))}
+                      onMouseUp={handleChartMouseUp}
+                      onMouseLeave={() => {
+                        setDragRange(null);
+                        setBoundaryDrag(null);
+                      }}
+                    >
                       <defs>
                         <linearGradient id="hrGradient" x1="0" y1="0" x2="0" y2="1">
                           <stop offset="5%" stopColor="#2563EB" stopOpacity={0.8}/>
@@ -791,6 +1189,8 @@ Report saved: ${new Date().toISOString().split('T')[0]}
                       
                       <XAxis 
                         dataKey="timeMinutes" 
+                        type="number"
+                        domain={['dataMin', 'dataMax']}
                         axisLine={{ stroke: '#6b7280', strokeWidth: 1 }}
                         tickLine={{ stroke: '#6b7280', strokeWidth: 1 }}
                         tick={{ fill: '#6b7280', fontSize: 12 }}
@@ -823,10 +1223,12 @@ Report saved: ${new Date().toISOString().split('T')[0]}
                           fontSize: '14px'
                         }}
                         formatter={(value, name) => [
-                          <span style={{ color: '#2563EB', fontWeight: '600' }}>{value} bpm</span>, 
-                          'Heart Rate'
+                          <span style={{ color: '#2563EB', fontWeight: '600' }}>
+                            {value} {shownChannel && name === CHANNELS[shownChannel].label ? CHANNELS[shownChannel].unit : 'bpm'}
+                          </span>, 
+                          name
                         ]}
-                        labelFormatter={(value) => `Time: ${value} min`}
+                        labelFormatter={(value) => `Time: ${formatClock(Number(value) * 60)}`}
                         labelStyle={{ color: '#374151', fontWeight: '500' }}
                       />
                       
@@ -836,14 +1238,28 @@ Report saved: ${new Date().toISOString().split('T')[0]}
                       />
                       
                       {/* HR Zone background areas */}
-                      {Object.entries(analysis.zones).reverse().map(([key, zone]) => (
-                        <ReferenceLine 
-                          key={`${key}-min`}
-                          y={zone.min} 
-                          stroke={zone.color} 
-                          strokeDasharray="4 4" 
-                          strokeWidth={1.5}
-                          opacity={0.6}
+                      {Object.entries(analysis.zones).map(([key, zone]) => (
+                        <ReferenceArea
+                          key={`${key}-band`}
+                          y1={zone.min}
+                          y2={zone.max}
+                          fill={`url(#zone-${key})`}
+                          stroke={zone.color}
+                          strokeOpacity={0.3}
+                          strokeDasharray="4 4"
+                          ifOverflow="hidden"
+                        />
+                      ))}
+                      
+                      {/* Active and recovery phase shading */}
+                      {phases.filter(phase => PHASE_SHADES[phase.type]).map(phase => (
+                        <ReferenceArea
+                          key={`${phase.type}-${phase.start}`}
+                          x1={phase.start / 60}
+                          x2={phase.end / 60}
+                          fill={PHASE_SHADES[phase.type]}
+                          fillOpacity={phase.type === 'active' ? 0.12 : 0.06}
+                          ifOverflow="hidden"
                         />
                       ))}
                       
@@ -856,7 +1272,7 @@ Report saved: ${new Date().toISOString().split('T')[0]}
                         opacity={0.7}
                         label={{
                           value: "Warmup End",
-                          position: "topLeft",
+                          position: "insideTopLeft",
                           style: { fill: '#059669', fontSize: '12px', fontWeight: '500' }
                         }}
                       />
@@ -868,7 +1284,7 @@ Report saved: ${new Date().toISOString().split('T')[0]}
                         opacity={0.7}
                         label={{
                           value: "Cooldown Start",
-                          position: "topRight",
+                          position: "insideTopRight",
                           style: { fill: '#dc2626', fontSize: '12px', fontWeight: '500' }
                         }}
                       />
@@ -881,6 +1297,7 @@ Report saved: ${new Date().toISOString().split('T')[0]}
                         dot={false}
                         fill="url(#hrGradient)"
                         name="Heart Rate"
+                        connectNulls
                         activeDot={{ 
                           r: 6, 
                           fill: '#2563EB',
@@ -888,9 +1305,119 @@ Report saved: ${new Date().toISOString().split('T')[0]}
                           strokeWidth: 2
                         }}
                       />
+                      {shownChannel && (
+                        <YAxis
+                          yAxisId="secondary"
+                          orientation="right"
+                          axisLine={{ stroke: CHANNELS[shownChannel].color, strokeWidth: 1 }}
+                          tickLine={{ stroke: CHANNELS[shownChannel].color, strokeWidth: 1 }}
+                          tick={{ fill: CHANNELS[shownChannel].color, fontSize: 12 }}
+                          label={{
+                            value: `${CHANNELS[shownChannel].label} (${CHANNELS[shownChannel].unit})`,
+                            angle: 90,
+                            position: 'insideRight',
+                            style: { textAnchor: 'middle', fill: CHANNELS[shownChannel].color, fontSize: '14px', fontWeight: '500' }
+                          }}
+                        />
+                      )}
+                      {shownChannel && (
+                        <Line
+                          yAxisId="secondary"
+                          type="monotone"
+                          dataKey={(point: SensorChannels) => displayValue(shownChannel, point[shownChannel])}
+                          stroke={CHANNELS[shownChannel].color}
+                          strokeWidth={1.5}
+                          dot={false}
+                          name={CHANNELS[shownChannel].label}
+                          connectNulls
+                        />
+                      )}
+                      {showRawOverlay && (
+                        <Line
+                          type="linear"
+                          dataKey="rawHeartRate"
+                          stroke="#9CA3AF"
+                          strokeWidth={1}
+                          dot={false}
+                          name="Raw Heart Rate"
+                          connectNulls
+                        />
+                      )}
+                      
+                      {/* Draggable interval boundaries */}
+                      {editingIntervals && previewWindows.flatMap((window, index) => BOUNDARY_EDGES.map(edge => (
+                        <ReferenceLine
+                          key={`${edge}-${index}`}
+                          x={window[edge] / 60}
+                          stroke={BOUNDARY_COLORS[edge]}
+                          strokeWidth={boundaryDrag?.index === index && boundaryDrag.edge === edge ? 3 : 2}
+                          ifOverflow="hidden"
+                          style={{ cursor: 'ew-resize' }}
+                        />
+                      )))}
+                      
+                      {/* Range being dragged, or the last selection */}
+                      {(dragRange ?? selection) && (
+                        <ReferenceArea
+                          x1={(dragRange ?? selection)?.from}
+                          x2={(dragRange ?? selection)?.to}
+                          fill="#2563EB"
+                          fillOpacity={0.15}
+                          stroke="#2563EB"
+                          strokeOpacity={0.5}
+                        />
+                      )}
+                      
+                      <Brush
+                        dataKey="timeMinutes"
+                        height={24}
+                        stroke="#2563EB"
+                        {...brushIndices(displayedChartData, zoomRange)}
+                        onChange={({ startIndex, endIndex }) => {
+                          const from = displayedChartData[startIndex]?.timeMinutes;
+                          const to = displayedChartData[endIndex]?.timeMinutes;
+                          if (from === undefined || to === undefined) return;
+                          setZoomRange(startIndex === 0 && endIndex === displayedChartData.length - 1 ? null : { from, to });
+                        }}
+                        tickFormatter={(value) => formatClock(Number(value) * 60)}
+                      />
                     </LineChart>
                   </ResponsiveContainer>
                 </div>
+                <div className="mt-2 flex items-center justify-between text-xs text-gray-500">
+                  <p>
+                    {editingIntervals
+                      ? 'Drag a boundary marker to move it; the analysis updates when you let go.'
+                      : 'Drag across the chart to select a range, or drag the handles below it to zoom.'}
+                  </p>
+                  {zoomRange && (
+                    <button onClick={() => setZoomRange(null)} className="text-blue-600 hover:text-blue-800">
+                      Reset zoom
+                    </button>
+                  )}
+                </div>
+                {editingIntervals && (
+                  <IntervalEditor
+                    windows={editableWindows}
+                    totalDuration={sessionSeconds}
+                    fallback={{
+                      start: analysis.warmupEnd,
+                      activeEnd: analysis.warmupEnd + userParams.activePhase,
+                      recoveryEnd: analysis.warmupEnd + userParams.activePhase + userParams.recoveryPhase
+                    }}
+                    edited={intervalEdits !== null}
+                    onChange={storeIntervalEdits}
+                    onReset={() => storeIntervalEdits(null)}
+                  />
+                )}
+                {selectionStats && selection && (
+                  <RangeStatsPanel
+                    stats={selectionStats}
+                    zones={analysis.zones}
+                    onZoom={() => setZoomRange(selection)}
+                    onClear={() => setSelection(null)}
+                  />
+                )}
                 
                 {/* Zone Legend */}
                 <div className="mt-6 p-4 bg-gray-50 rounded-lg">
@@ -915,14 +1442,14 @@ Report saved: ${new Date().toISOString().split('T')[0]}
               {/* Heart Rate Zone Distribution Pie Chart */}
               <div className="bg-white rounded-lg shadow-lg p-6">
                 <h2 className="text-xl font-semibold text-gray-800 mb-4">Zone Distribution</h2>
-                <div style={{ width: '100%', height: 300 }}>
+                <div ref={pieRef} style={{ width: '100%', height: 300 }}>
                   <ResponsiveContainer>
                     <PieChart>
                       <Pie
                         data={Object.entries(analysis.zoneDistribution).map(([key, value]) => ({
                           name: analysis.zones[key].name,
-                          value: Math.round((value / chartData.length) * 100),
-                          count: value,
+                          value: zonePercentage(value, { totalSeconds: analysis.zoneTotalSeconds }),
+                          seconds: value,
                           color: analysis.zones[key].color,
                           zone: key
                         })).filter(item => item.value > 0)}
@@ -933,14 +1460,16 @@ Report saved: ${new Date().toISOString().split('T')[0]}
                         paddingAngle={2}
                         dataKey="value"
                       >
-                        {Object.entries(analysis.zoneDistribution).map(([key, value]) => (
+                        {Object.entries(analysis.zoneDistribution)
+                          .filter(([, value]) => zonePercentage(value, { totalSeconds: analysis.zoneTotalSeconds }) > 0)
+                          .map(([key]) => (
                           <Cell 
                             key={`cell-${key}`} 
                             fill={analysis.zones[key].color}
                             stroke="#ffffff"
                             strokeWidth={2}
                           />
-                        )).filter((_, index) => Object.values(analysis.zoneDistribution)[index] > 0)}
+                        ))}
                       </Pie>
                       <Tooltip
                         contentStyle={{
@@ -950,8 +1479,8 @@ Report saved: ${new Date().toISOString().split('T')[0]}
                           boxShadow: '0 10px 15px -3px rgba(0, 0, 0, 0.1)',
                           fontSize: '14px'
                         }}
-                        formatter={(value, name) => [
-                          <span style={{ fontWeight: '600' }}>{value}%</span>, 
+                        formatter={(value, name, item) => [
+                          <span style={{ fontWeight: '600' }}>{value}% ({formatClock(item.payload.seconds)})</span>, 
                           name
                         ]}
                       />
@@ -965,7 +1494,7 @@ Report saved: ${new Date().toISOString().split('T')[0]}
                     .map(([key, value]) => ({
                       key,
                       value,
-                      percentage: Math.round((value / chartData.length) * 100),
+                      percentage: zonePercentage(value, { totalSeconds: analysis.zoneTotalSeconds }),
                       zone: analysis.zones[key]
                     }))
                     .filter(item => item.value > 0)
@@ -980,7 +1509,7 @@ Report saved: ${new Date().toISOString().split('T')[0]}
                           <span className="text-sm font-medium text-gray-700">{item.zone.name}</span>
                         </div>
                         <div className="text-sm font-semibold text-gray-800">
-                          {item.percentage}%
+                          {formatClock(item.value)} <span className="text-gray-500 font-normal">({item.percentage}%)</span>
                         </div>
                       </div>
                     ))}
@@ -1007,6 +1536,46 @@ Report saved: ${new Date().toISOString().split('T')[0]}
                       <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                         Recovery Score
                       </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        HRR30
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        HRR60
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        HRR120
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Tau
+                      </th>
+                      {analysis.hrv && (
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          RMSSD (Reactivation)
+                        </th>
+                      )}
+                      {channelColumns.map(([key]) => (
+                        <th key={key} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Active {CHANNELS[key].label}
+                        </th>
+                      ))}
+                      {hasTargets && (
+                        <>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                            Active in Target
+                          </th>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                            Recovery in Target
+                          </th>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                            Target
+                          </th>
+                        </>
+                      )}
+                      {hasDrift && (
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Schedule Drift
+                        </th>
+                      )}
                     </tr>
                   </thead>
                   <tbody className="bg-white divide-y divide-gray-200">
@@ -1014,27 +1583,80 @@ Report saved: ${new Date().toISOString().split('T')[0]}
                       <tr key={index} className={index % 2 === 0 ? 'bg-white' : 'bg-gray-50'}>
                         <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
                           {score.interval}
+                          {userParams.plan && <span className="block text-xs font-normal text-gray-500">{score.name}</span>}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                           {score.maxActive} bpm
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                          {score.minRecovery} bpm
+                          {formatDrop(score.minRecovery)}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm font-semibold text-gray-900">
-                          {score.recoveryScore}
+                          {score.recoveryScore ?? '–'}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                          {formatDrop(score.hrr30)}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                          {formatDrop(score.hrr60)}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                          {formatDrop(score.hrr120)}
                         </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                          {score.tau !== null ? `${score.tau}s` : '–'}
+                        </td>
+                        {analysis.hrv && (
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                            {formatReactivation(analysis.hrv, score.interval)}
+                          </td>
+                        )}
+                        {channelColumns.map(([key, field]) => (
+                          <td key={key} className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                            {formatChannel(key, score[field])}
+                          </td>
+                        ))}
+                        {hasTargets && (
+                          <>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900" title={score.compliance.active ? targetLabel(score.compliance.active.targetZone, analysis.zones, 'active') : undefined}>
+                              {formatCompliance(score.compliance.active)}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900" title={score.compliance.recovery ? targetLabel(score.compliance.recovery.targetZone, analysis.zones, 'recovery') : undefined}>
+                              {formatCompliance(score.compliance.recovery)}
+                            </td>
+                            <td className={`px-6 py-4 whitespace-nowrap text-sm font-semibold ${score.compliance.passed === null ? 'text-gray-400' : score.compliance.passed ? 'text-green-600' : 'text-red-600'}`}>
+                              {score.compliance.passed === null ? '–' : score.compliance.passed ? 'Pass' : 'Fail'}
+                            </td>
+                          </>
+                        )}
+                        {hasDrift && (
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                            {formatDrift(analysis.intervals[index].drift)}
+                          </td>
+                        )}
                       </tr>
                     ))}
                   </tbody>
                   <tfoot className="bg-gray-100">
                     <tr>
-                      <td colSpan="3" className="px-6 py-4 text-sm font-medium text-gray-900">
+                      <td colSpan={3} className="px-6 py-4 text-sm font-medium text-gray-900">
                         Cumulative Recovery Score
                       </td>
                       <td className="px-6 py-4 text-sm font-bold text-blue-600">
                         {analysis.cumulativeRecoveryScore}
                       </td>
+                      <td colSpan={4 + channelColumns.length + (analysis.hrv ? 1 : 0)} />
+                      {hasTargets && (
+                        <>
+                          <td colSpan={2} className="px-6 py-4 text-sm font-medium text-gray-900">
+                            Target Compliance
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm font-bold text-blue-600">
+                            {analysis.compliance.overall}% ({analysis.compliance.passedIntervals}/{analysis.compliance.scoredIntervals} passed)
+                          </td>
+                        </>
+                      )}
+                      {hasDrift && <td />}
                     </tr>
                   </tfoot>
                 </table>
@@ -1046,9 +1668,21 @@ Report saved: ${new Date().toISOString().split('T')[0]}
                   Higher recovery scores indicate better cardiovascular fitness and recovery capacity. 
                   The cumulative score allows comparison between different workout sessions - track this over time to monitor fitness improvements.
                 </p>
+                <p className="text-sm text-blue-800 mt-2">
+                  HRR30/60/120 are the heart rate drops 30, 60 and 120 seconds after each active phase ends, independent of how long the recovery lasts.
+                  Tau is the time constant of the fitted exponential decay - a smaller tau means faster recovery.
+                </p>
+                {hasTargets && (
+                  <p className="text-sm text-blue-800 mt-2">
+                    Active phases are on target in their target zone or above, recoveries in their target zone or below.
+                    An interval passes when each targeted phase spends at least {COMPLIANCE_PASS_SHARE}% of its time on target.
+                  </p>
+                )}
               </div>
             </div>
 
+            {analysis.hrv && <HrvPanel hrv={analysis.hrv} beats={rrIntervals} phases={phases} />}
+
             {/* Bottom Export Button */}
             <div className="mt-8 text-center">
               <button
@@ -1058,8 +1692,15 @@ Report saved: ${new Date().toISOString().split('T')[0]}
                 <Download size={24} />
                 Export Detailed Analysis Report
               </button>
+              <button
+                onClick={exportAsPdf}
+                className="inline-flex items-center gap-3 px-8 py-4 ml-4 bg-white text-blue-600 text-lg font-semibold rounded-lg border border-blue-600 hover:bg-blue-50 transition-colors shadow-lg hover:shadow-xl"
+              >
+                <FileText size={24} />
+                Export PDF with Charts
+              </button>
               <p className="text-sm text-gray-600 mt-2">
-                Downloads a comprehensive text report with all analysis data, insights, and recommendations
+                Downloads a comprehensive text report with all analysis data, insights, and recommendations, or a printable PDF that adds the charts
               </p>
             </div>
           </>
@@ -0,0 +1,98 @@
+import type { ChannelKey, TrackPointData } from '../types';
+import type { IntervalWindow } from './intervalDetection';
+
+export interface ChannelInfo {
+  label: string;
+  unit: string;
+  color: string;
+  // Multiplier from the stored SI value to the displayed unit
+  scale: number;
+  decimals: number;
+}
+
+export const CHANNELS: Record<ChannelKey, ChannelInfo> = {
+  power: { label: 'Power', unit: 'W', color: '#7C3AED', scale: 1, decimals: 0 },
+  speed: { label: 'Speed', unit: 'km/h', color: '#0891B2', scale: 3.6, decimals: 1 },
+  cadence: { label: 'Cadence', unit: 'rpm', color: '#D97706', scale: 1, decimals: 0 },
+  altitude: { label: 'Altitude', unit: 'm', color: '#65A30D', scale: 1, decimals: 0 },
+  distance: { label: 'Distance', unit: 'km', color: '#475569', scale: 0.001, decimals: 2 }
+};
+
+export const CHANNEL_KEYS = Object.keys(CHANNELS) as ChannelKey[];
+
+export interface ActiveChannels {
+  avgPower: number | null;
+  avgSpeed: number | null;
+  avgCadence: number | null;
+}
+
+// Channels with at least one recorded value
+export const availableChannels = (data: TrackPointData[]) =>
+  CHANNEL_KEYS.filter(key => data.some(point => point[key] !== undefined));
+
+// Value converted to the display unit and rounded, or null when not recorded
+export const displayValue = (key: ChannelKey, value: number | undefined | null) => {
+  if (value === undefined || value === null) return null;
+  const factor = 10 ** CHANNELS[key].decimals;
+  return Math.round(value * CHANNELS[key].scale * factor) / factor;
+};
+
+export const formatChannel = (key: ChannelKey, value: number | null) =>
+  value !== null ? `${value} ${CHANNELS[key].unit}` : '–';
+
+const average = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+
+const channelAverage = (points: TrackPointData[], key: ChannelKey) =>
+  average(points.flatMap(point => point[key] !== undefined ? [point[key]] : []));
+
+// Averages over the active phase, in display units
+export const activeChannelAverages = (data: TrackPointData[], window: IntervalWindow): ActiveChannels => {
+  const active = data.filter(point => point.time >= window.start && point.time <= window.activeEnd);
+  return {
+    avgPower: displayValue('power', channelAverage(active, 'power')),
+    avgSpeed: displayValue('speed', channelAverage(active, 'speed')),
+    avgCadence: displayValue('cadence', channelAverage(active, 'cadence'))
+  };
+};
+
+// Watts per beat over the given samples
+const efficiency = (points: TrackPointData[]) => {
+  const withPower = points.filter(point => point.power !== undefined);
+  const power = channelAverage(withPower, 'power');
+  const heartRate = average(withPower.map(point => point.heartRate));
+  return power !== null && heartRate ? power / heartRate : null;
+};
+
+/**
+ * HR-to-power decoupling: the drop in watts per beat from the first to the
+ * second half of the work, as a percentage. With intervals only the active
+ * phases are compared, otherwise the whole session is split in two.
+ */
+export const powerDecoupling = (data: TrackPointData[], windows: IntervalWindow[]) => {
+  let firstHalf: TrackPointData[];
+  let secondHalf: TrackPointData[];
+  if (windows.length >= 2) {
+    const inActive = (group: IntervalWindow[]) =>
+      data.filter(point => group.some(window => point.time >= window.start && point.time <= window.activeEnd));
+    const middle = Math.floor(windows.length / 2);
+    firstHalf = inActive(windows.slice(0, middle));
+    secondHalf = inActive(windows.slice(windows.length - middle));
+  } else {
+    const middle = data.length > 0 ? data[data.length - 1].time / 2 : 0;
+    firstHalf = data.filter(point => point.time < middle);
+    secondHalf = data.filter(point => point.time >= middle);
+  }
+
+  const first = efficiency(firstHalf);
+  const second = efficiency(secondHalf);
+  if (first === null || second === null || first === 0) return null;
+  return Math.round((first - second) / first * 1000) / 10;
+};
+
+// Per-interval fields shown for each channel that was recorded
+export const ACTIVE_CHANNEL_FIELDS: [ChannelKey, keyof ActiveChannels][] = [
+  ['power', 'avgPower'],
+  ['speed', 'avgSpeed'],
+  ['cadence', 'avgCadence']
+];
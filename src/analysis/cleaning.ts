@@ -0,0 +1,152 @@
+import type { ActivityPause, CleaningOptions, TrackPointData } from '../types';
+
+export interface SignalGap {
+  start: number;
+  end: number;
+}
+
+export interface CleaningReport {
+  inputPoints: number;
+  outputPoints: number;
+  flatlined: number;
+  outliers: number;
+  rateLimited: number;
+  // Gaps longer than the zone-time cap left after filtering
+  gaps: SignalGap[];
+  interpolated: number;
+}
+
+export interface CleanedSignal {
+  data: TrackPointData[];
+  report: CleaningReport;
+}
+
+export const DEFAULT_CLEANING: CleaningOptions = {
+  enabled: true,
+  outlierThreshold: 25,
+  maxRateOfChange: 5,
+  flatlineDuration: 20,
+  interpolateGaps: false,
+  maxInterpolatedGap: 30
+};
+
+const MEDIAN_WINDOW = 5; // seconds either side of each sample
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
+
+// Keeps the first sample of every run of identical values that lasts too long
+const removeFlatlines = (data: TrackPointData[], duration: number) => {
+  const keep: TrackPointData[] = [];
+  let runStart = 0;
+  for (let i = 1; i <= data.length; i++) {
+    if (i < data.length && data[i].heartRate === data[runStart].heartRate) continue;
+    const stuck = data[i - 1].time - data[runStart].time >= duration;
+    keep.push(...(stuck ? [data[runStart]] : data.slice(runStart, i)));
+    runStart = i;
+  }
+  return keep;
+};
+
+// Hampel-style filter against the median of the surrounding samples
+const removeOutliers = (data: TrackPointData[], threshold: number) => {
+  let from = 0;
+  let to = 0;
+  return data.filter(point => {
+    while (data[from].time < point.time - MEDIAN_WINDOW) from++;
+    while (to < data.length && data[to].time <= point.time + MEDIAN_WINDOW) to++;
+    const neighbourhood = data.slice(from, to).map(d => d.heartRate);
+    return Math.abs(point.heartRate - median(neighbourhood)) <= threshold;
+  });
+};
+
+// The allowed jump grows with the time since the last accepted sample, so a
+// genuine change is picked up again after a few seconds
+const limitRateOfChange = (data: TrackPointData[], maxRate: number) => {
+  const keep: TrackPointData[] = [];
+  for (const point of data) {
+    const last = keep[keep.length - 1];
+    if (last && Math.abs(point.heartRate - last.heartRate) > maxRate * Math.max(1, point.time - last.time)) continue;
+    keep.push(point);
+  }
+  return keep;
+};
+
+// Recording pauses are expected breaks, not signal gaps
+const findGaps = (data: TrackPointData[], maxGap: number, pauses: ActivityPause[]): SignalGap[] => {
+  const gaps: SignalGap[] = [];
+  for (let i = 1; i < data.length; i++) {
+    const start = data[i - 1].time;
+    const end = data[i].time;
+    if (end - start > maxGap && !pauses.some(pause => pause.start < end && pause.end > start)) gaps.push({ start, end });
+  }
+  return gaps;
+};
+
+// Fills the given gaps with one linearly interpolated sample per second
+const interpolateGaps = (data: TrackPointData[], gaps: SignalGap[]) => {
+  const filled: TrackPointData[] = [];
+  let g = 0;
+  for (let i = 0; i < data.length; i++) {
+    filled.push(data[i]);
+    if (g >= gaps.length || gaps[g].start !== data[i].time) continue;
+    const next = data[i + 1];
+    for (let t = data[i].time + 1; t < next.time; t++) {
+      const fraction = (t - data[i].time) / (next.time - data[i].time);
+      filled.push({
+        time: t,
+        heartRate: Math.round(data[i].heartRate + (next.heartRate - data[i].heartRate) * fraction),
+        timestamp: new Date(data[i].timestamp.getTime() + (t - data[i].time) * 1000)
+      });
+    }
+    g++;
+  }
+  return filled;
+};
+
+/**
+ * Removes optical-sensor artifacts before analysis: flat-lined dropouts,
+ * spikes against the rolling median and physiologically impossible jumps.
+ * Gaps longer than maxGap are reported and, if enabled, interpolated; gaps
+ * overlapping a recording pause are left alone.
+ */
+export const cleanHeartRate = (
+  data: TrackPointData[],
+  options: CleaningOptions,
+  maxGap: number,
+  pauses: ActivityPause[] = []
+): CleanedSignal => {
+  const report: CleaningReport = {
+    inputPoints: data.length,
+    outputPoints: data.length,
+    flatlined: 0,
+    outliers: 0,
+    rateLimited: 0,
+    gaps: [],
+    interpolated: 0
+  };
+  if (!options.enabled || data.length === 0) return { data, report };
+
+  const unflattened = removeFlatlines(data, options.flatlineDuration);
+  const withoutOutliers = removeOutliers(unflattened, options.outlierThreshold);
+  const limited = limitRateOfChange(withoutOutliers, options.maxRateOfChange);
+  report.flatlined = data.length - unflattened.length;
+  report.outliers = unflattened.length - withoutOutliers.length;
+  report.rateLimited = withoutOutliers.length - limited.length;
+
+  report.gaps = findGaps(limited, maxGap, pauses);
+  let cleaned = limited;
+  if (options.interpolateGaps) {
+    const fillable = report.gaps.filter(gap => gap.end - gap.start <= options.maxInterpolatedGap);
+    cleaned = interpolateGaps(limited, fillable);
+    report.interpolated = cleaned.length - limited.length;
+  }
+
+  report.outputPoints = cleaned.length;
+  return { data: cleaned, report };
+};
+
+export const removedPoints = (report: CleaningReport) => report.flatlined + report.outliers + report.rateLimited;
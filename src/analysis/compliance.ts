@@ -0,0 +1,108 @@
+import type { TrackPointData, ZoneTargets } from '../types';
+import { DEFAULT_MAX_GAP } from './zones';
+import type { HRZones } from './zones';
+
+// Share of a phase (percent) that has to be spent in the target to pass it
+export const COMPLIANCE_PASS_SHARE = 50;
+
+export const DEFAULT_TARGETS: ZoneTargets = { active: 'zone4', recovery: 'zone3' };
+
+export type TargetSide = 'active' | 'recovery';
+
+export interface SegmentCompliance {
+  targetZone: string;
+  // Seconds from the start of the phase until HR first entered the target, null if it never did
+  timeToTarget: number | null;
+  timeInTarget: number;
+  // Counted seconds in the phase, with gaps capped like time in zone
+  duration: number;
+  share: number;
+  passed: boolean;
+}
+
+export interface IntervalCompliance {
+  active: SegmentCompliance | null;
+  recovery: SegmentCompliance | null;
+  // Null when neither phase has a target
+  passed: boolean | null;
+}
+
+export interface SessionCompliance {
+  // Time in target over all targeted phase time, percent
+  overall: number | null;
+  active: number | null;
+  recovery: number | null;
+  passedIntervals: number;
+  scoredIntervals: number;
+}
+
+// Active targets are met at the zone's lower bound or above, recovery targets below its upper bound
+const inTarget = (heartRate: number, zone: string, zones: HRZones, side: TargetSide) => {
+  const keys = Object.keys(zones);
+  const band = zones[zone];
+  if (side === 'active') return heartRate >= band.min;
+  return keys[keys.length - 1] === zone || heartRate < band.max;
+};
+
+/**
+ * Scores one phase against its target zone. Each sample is credited with the
+ * time until the next one, as in timeInZones, so sparse recordings are not
+ * penalized for missing samples.
+ */
+export const segmentCompliance = (
+  data: TrackPointData[],
+  start: number,
+  end: number,
+  zone: string | null,
+  zones: HRZones,
+  side: TargetSide,
+  maxGap: number = DEFAULT_MAX_GAP
+): SegmentCompliance | null => {
+  if (zone === null || !(zone in zones)) return null;
+
+  let timeToTarget: number | null = null;
+  let timeInTarget = 0;
+  let duration = 0;
+  for (let i = 0; i < data.length; i++) {
+    const point = data[i];
+    if (point.time < start || point.time >= end) continue;
+    const next = data[i + 1];
+    const dt = Math.min((next ? Math.min(next.time, end) : end) - point.time, maxGap);
+    const hit = inTarget(point.heartRate, zone, zones, side);
+    if (hit && timeToTarget === null) timeToTarget = point.time - start;
+    if (dt <= 0) continue;
+    duration += dt;
+    if (hit) timeInTarget += dt;
+  }
+  if (duration === 0) return null;
+
+  const share = Math.round((timeInTarget / duration) * 100);
+  return { targetZone: zone, timeToTarget, timeInTarget, duration, share, passed: share >= COMPLIANCE_PASS_SHARE };
+};
+
+export const intervalCompliance = (active: SegmentCompliance | null, recovery: SegmentCompliance | null): IntervalCompliance => {
+  const scored = [active, recovery].filter(segment => segment !== null);
+  return { active, recovery, passed: scored.length > 0 ? scored.every(segment => segment.passed) : null };
+};
+
+const sharePercent = (segments: (SegmentCompliance | null)[]) => {
+  const scored = segments.filter(segment => segment !== null);
+  const duration = scored.reduce((sum, segment) => sum + segment.duration, 0);
+  return duration > 0 ? Math.round((scored.reduce((sum, segment) => sum + segment.timeInTarget, 0) / duration) * 100) : null;
+};
+
+export const sessionCompliance = (intervals: IntervalCompliance[]): SessionCompliance => {
+  const scored = intervals.filter(interval => interval.passed !== null);
+  return {
+    overall: sharePercent(intervals.flatMap(interval => [interval.active, interval.recovery])),
+    active: sharePercent(intervals.map(interval => interval.active)),
+    recovery: sharePercent(intervals.map(interval => interval.recovery)),
+    passedIntervals: scored.filter(interval => interval.passed).length,
+    scoredIntervals: scored.length
+  };
+};
+
+export const targetLabel = (zone: string, zones: HRZones, side: TargetSide) => {
+  const name = zones[zone]?.name ?? zone;
+  return side === 'active' ? `${name} or above` : `${name} or below`;
+};
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import type { BeatInterval } from '../types';
+import { parseRR } from '../importers/rr';
+import { parseTCX } from '../importers/tcx';
+import { analyzeHrv, markArtifacts, poincareDescriptors, poincarePoints } from './hrv';
+import type { PhaseSegment } from './phases';
+
+// Beats laid end to end from `start`, alternating between the given intervals
+const alternating = (start: number, count: number, ...rr: number[]): BeatInterval[] => {
+  let time = start;
+  return Array.from({ length: count }, (_, i) => {
+    time += rr[i % rr.length] / 1000;
+    return { time: Math.round(time * 1000) / 1000, rr: rr[i % rr.length] };
+  });
+};
+
+const segment = (type: PhaseSegment['type'], interval: number | null, start: number, end: number): PhaseSegment =>
+  ({ type, interval, start, end });
+
+describe('heart rate variability', () => {
+  it('computes RMSSD, SDNN and pNN50 from successive beats', () => {
+    const hrv = analyzeHrv(alternating(0, 40, 800, 850), [segment('warmup', null, 0, 60)]);
+    expect(hrv?.phases).toEqual([
+      { type: 'warmup', interval: null, start: 0, end: 60, beats: 40, meanRR: 825, rmssd: 50, sdnn: 25.3, pnn50: 0, reactivation: null }
+    ]);
+  });
+
+  it('rejects an ectopic beat and the differences around it', () => {
+    const beats = alternating(0, 40, 800, 860);
+    beats[20] = { ...beats[20], rr: 420 };
+    expect(markArtifacts(beats).filter(Boolean)).toHaveLength(1);
+    expect(poincarePoints(beats)).toHaveLength(37);
+
+    const hrv = analyzeHrv(beats, [segment('warmup', null, 0, 60)]);
+    expect(hrv).toMatchObject({ beats: 40, artifacts: 1 });
+    expect(hrv?.phases[0]).toMatchObject({ beats: 39, rmssd: 60, pnn50: 100 });
+  });
+
+  it('scores recoveries against the warmup and skips the work phases', () => {
+    const beats = [
+      ...alternating(0, 55, 1000, 1080),
+      ...alternating(60, 145, 400, 404),
+      ...alternating(120, 80, 600, 620)
+    ];
+    const phases = [
+      segment('warmup', null, 0, 60),
+      segment('active', 1, 60, 120),
+      segment('recovery', 1, 120, 180)
+    ];
+    const hrv = analyzeHrv(beats, phases);
+    expect(hrv?.phases.map(({ type, rmssd, reactivation }) => [type, rmssd, reactivation])).toEqual([
+      ['warmup', 80, null],
+      ['recovery', 20, 25]
+    ]);
+  });
+
+  it('measures the Poincaré spread across and along the identity line', () => {
+    expect(poincareDescriptors(poincarePoints(alternating(0, 40, 800, 850)))).toEqual({ sd1: 35.8, sd2: 0 });
+    expect(analyzeHrv([], [])).toBeNull();
+  });
+});
+
+describe('RR interval import', () => {
+  it('builds a heart rate track from a plain RR list', () => {
+    const text = ['RR', ...Array.from({ length: 30 }, (_, i) => (i % 2 ? '0.75' : '750'))].join('\n');
+    const activity = parseRR(text, new Date('2025-03-06T18:00:00Z'));
+    expect(activity.rrIntervals).toHaveLength(30);
+    expect(activity.rrIntervals?.slice(0, 2)).toEqual([{ time: 0.75, rr: 750 }, { time: 1.5, rr: 750 }]);
+    expect(activity.points.every(point => point.heartRate === 80)).toBe(true);
+    expect(activity.points[activity.points.length - 1].time).toBe(22);
+    // 30 beats of 750 ms end when the file was written
+    expect(activity.points[0].timestamp).toEqual(new Date('2025-03-06T17:59:37.500Z'));
+  });
+
+  it('reads RR extensions from TCX trackpoints', () => {
+    const trackpoint = (second: number, rr: string) =>
+      `<Trackpoint><Time>2025-03-06T18:00:0${second}Z</Time><HeartRateBpm><Value>75</Value></HeartRateBpm>` +
+      `<Extensions><RRIntervals>${rr}</RRIntervals></Extensions></Trackpoint>`;
+    const activity = parseTCX(
+      `<TrainingCenterDatabase><Activities><Activity><Lap StartTime="2025-03-06T18:00:00Z"><Track>
+      ${trackpoint(0, '<RR>790</RR><RR>810</RR>')}${trackpoint(1, '<RR>0.8</RR><RR>99</RR>')}
+      </Track></Lap></Activity></Activities></TrainingCenterDatabase>`
+    );
+    expect(activity.rrIntervals).toEqual([{ time: 0, rr: 790 }, { time: 0, rr: 810 }, { time: 1, rr: 800 }]);
+  });
+});
@@ -0,0 +1,164 @@
+import type { BeatInterval } from '../types';
+import type { PhaseSegment, PhaseType } from './phases';
+
+// Time-domain heart rate variability over a stretch of clean beats
+export interface HrvStats {
+  beats: number;
+  // Milliseconds
+  meanRR: number;
+  // Root mean square of successive differences, ms
+  rmssd: number;
+  // Standard deviation of the intervals, ms
+  sdnn: number;
+  // Share of successive differences above 50 ms, percent
+  pnn50: number;
+}
+
+export interface PhaseHrv extends HrvStats {
+  type: PhaseType;
+  interval: number | null;
+  start: number;
+  end: number;
+  // Recovery RMSSD as a percentage of the warmup RMSSD; null outside recoveries
+  // or when the warmup has too few clean beats
+  reactivation: number | null;
+}
+
+// Spread across (SD1, short-term) and along (SD2, long-term) the identity line
+export interface PoincareDescriptors {
+  sd1: number;
+  sd2: number;
+}
+
+export interface PoincarePoint {
+  time: number;
+  rr: number;
+  nextRR: number;
+}
+
+export interface SessionHrv {
+  beats: number;
+  // Beats rejected as ectopic or missed
+  artifacts: number;
+  // Warmup, every recovery and cooldown that had enough clean beats
+  phases: PhaseHrv[];
+  poincare: PoincareDescriptors | null;
+}
+
+const HRV_PHASES: PhaseType[] = ['warmup', 'recovery', 'cooldown'];
+
+// Fewer beats than this give no meaningful variability
+const MIN_BEATS = 20;
+// A beat differing more than this from the recent median is ectopic or a missed beat
+const ARTIFACT_TOLERANCE = 0.2;
+const MEDIAN_WINDOW = 5;
+// This many rejections in a row mean the rate itself has moved, so they become the new reference
+const MAX_REJECTED_RUN = 3;
+// Beats further apart than this (seconds) were not consecutive; a dropout lies between
+const MAX_BEAT_GAP = 3;
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const standardDeviation = (values: number[]) => {
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / Math.max(1, values.length - 1));
+};
+
+/**
+ * Flags beats that deviate from the median of the preceding accepted beats by
+ * more than the tolerance. The comparison restarts after a dropout or a run
+ * of rejections, so a genuine change in rate is not rejected for good.
+ */
+export const markArtifacts = (beats: BeatInterval[]): boolean[] => {
+  const flags: boolean[] = [];
+  let recent: number[] = [];
+  let rejected: number[] = [];
+  beats.forEach((beat, i) => {
+    if (i > 0 && beat.time - beats[i - 1].time > MAX_BEAT_GAP) recent = [];
+    const reference = recent.length >= 3 ? median(recent) : null;
+    const artifact = reference !== null && Math.abs(beat.rr - reference) > reference * ARTIFACT_TOLERANCE;
+    flags.push(artifact);
+    if (artifact) {
+      rejected = [...rejected, beat.rr];
+      if (rejected.length >= MAX_REJECTED_RUN) {
+        recent = rejected;
+        rejected = [];
+      }
+    } else {
+      recent = [...recent, beat.rr].slice(-MEDIAN_WINDOW);
+      rejected = [];
+    }
+  });
+  return flags;
+};
+
+// Pairs of clean beats that followed each other directly
+const successivePairs = (beats: BeatInterval[], artifacts: boolean[]) =>
+  beats.slice(1).flatMap((beat, i) => {
+    const previous = beats[i];
+    const adjacent = !artifacts[i] && !artifacts[i + 1] && beat.time - previous.time <= MAX_BEAT_GAP;
+    return adjacent ? [{ time: previous.time, rr: previous.rr, nextRR: beat.rr }] : [];
+  });
+
+const hrvStats = (beats: BeatInterval[], artifacts: boolean[]): HrvStats | null => {
+  const clean = beats.filter((_, i) => !artifacts[i]).map(beat => beat.rr);
+  const differences = successivePairs(beats, artifacts).map(pair => pair.nextRR - pair.rr);
+  if (clean.length < MIN_BEATS || differences.length < MIN_BEATS - 1) return null;
+
+  return {
+    beats: clean.length,
+    meanRR: Math.round(clean.reduce((sum, rr) => sum + rr, 0) / clean.length),
+    rmssd: round1(Math.sqrt(differences.reduce((sum, difference) => sum + difference ** 2, 0) / differences.length)),
+    sdnn: round1(standardDeviation(clean)),
+    pnn50: round1(differences.filter(difference => Math.abs(difference) > 50).length / differences.length * 100)
+  };
+};
+
+// Consecutive clean beat pairs for the Poincaré plot, each at the time of its first beat
+export const poincarePoints = (beats: BeatInterval[]): PoincarePoint[] =>
+  successivePairs(beats, markArtifacts(beats));
+
+export const poincareDescriptors = (points: PoincarePoint[]): PoincareDescriptors | null => {
+  if (points.length < MIN_BEATS) return null;
+  return {
+    sd1: round1(standardDeviation(points.map(point => (point.nextRR - point.rr) / Math.SQRT2))),
+    sd2: round1(standardDeviation(points.map(point => (point.nextRR + point.rr) / Math.SQRT2)))
+  };
+};
+
+/**
+ * RMSSD, SDNN and pNN50 for the warmup, each recovery and the cooldown.
+ * Recoveries are also expressed against the warmup, as vagal activity
+ * returning after each effort should climb back toward its resting level.
+ */
+export const analyzeHrv = (beats: BeatInterval[], phases: PhaseSegment[]): SessionHrv | null => {
+  if (beats.length === 0) return null;
+  const artifacts = markArtifacts(beats);
+
+  const measured = phases
+    .filter(segment => HRV_PHASES.includes(segment.type))
+    .flatMap(segment => {
+      const inside = beats.flatMap((beat, i) => beat.time >= segment.start && beat.time < segment.end ? [i] : []);
+      const stats = hrvStats(inside.map(i => beats[i]), inside.map(i => artifacts[i]));
+      return stats ? [{ ...stats, type: segment.type, interval: segment.interval, start: segment.start, end: segment.end }] : [];
+    });
+
+  const warmup = measured.find(segment => segment.type === 'warmup');
+  return {
+    beats: beats.length,
+    artifacts: artifacts.filter(Boolean).length,
+    phases: measured.map(segment => ({
+      ...segment,
+      reactivation: segment.type === 'recovery' && warmup && warmup.rmssd > 0
+        ? Math.round(segment.rmssd / warmup.rmssd * 100)
+        : null
+    })),
+    poincare: poincareDescriptors(successivePairs(beats, artifacts))
+  };
+};
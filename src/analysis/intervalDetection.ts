@@ -0,0 +1,176 @@
+import type { IntervalSchedule, TrackPointData } from '../types';
+
+export interface IntervalWindow {
+  start: number;
+  activeEnd: number;
+  recoveryEnd: number;
+}
+
+// Offset in seconds of each detected boundary from the planned schedule (positive = late)
+export interface ScheduleDrift {
+  start: number;
+  activeEnd: number;
+  recoveryEnd: number;
+}
+
+export interface DetectedInterval extends IntervalWindow {
+  drift: ScheduleDrift;
+}
+
+const SMOOTHING_WINDOW = 10; // seconds either side of each sample
+const MIN_ACTIVE_DURATION = 10; // seconds, shorter efforts are treated as noise
+const UPPER_THRESHOLD = 0.65; // fraction of the low..high HR range that marks a work bout
+const LOWER_THRESHOLD = 0.45; // fraction of the low..high HR range that marks recovery
+const TROUGH_TOLERANCE = 2; // bpm of noise allowed around a trough or peak
+const TROUGH_PLATEAU = 15; // seconds without a lower HR before the walk back stops
+
+// Windows as laid out by the planned schedule, without any cooldown clipping
+export const plannedWindows = (schedule: IntervalSchedule): IntervalWindow[] => {
+  const cycleLength = schedule.activePhase + schedule.recoveryPhase;
+  const windows: IntervalWindow[] = [];
+  for (let i = 0; i < schedule.intervals; i++) {
+    const start = schedule.warmupTime + i * cycleLength;
+    windows.push({
+      start,
+      activeEnd: start + schedule.activePhase,
+      recoveryEnd: start + cycleLength
+    });
+  }
+  return windows;
+};
+
+const smoothHeartRate = (data: TrackPointData[]): number[] => {
+  const smoothed: number[] = [];
+  let lo = 0;
+  let hi = 0;
+  let sum = 0;
+  for (let i = 0; i < data.length; i++) {
+    while (hi < data.length && data[hi].time <= data[i].time + SMOOTHING_WINDOW) {
+      sum += data[hi].heartRate;
+      hi++;
+    }
+    while (data[lo].time < data[i].time - SMOOTHING_WINDOW) {
+      sum -= data[lo].heartRate;
+      lo++;
+    }
+    smoothed.push(sum / (hi - lo));
+  }
+  return smoothed;
+};
+
+const percentile = (sorted: number[], p: number) => {
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.round(p * (sorted.length - 1))));
+  return sorted[index];
+};
+
+// Walks back from a threshold crossing to the trough the HR climbed out of
+const findRiseStart = (data: TrackPointData[], smoothed: number[], from: number, floor: number) => {
+  let troughIndex = from;
+  for (let j = from - 1; j >= floor; j--) {
+    if (smoothed[j] < smoothed[troughIndex] - 0.5) {
+      troughIndex = j;
+    } else if (
+      smoothed[j] > smoothed[troughIndex] + TROUGH_TOLERANCE ||
+      data[troughIndex].time - data[j].time > TROUGH_PLATEAU
+    ) {
+      break;
+    }
+  }
+  return troughIndex;
+};
+
+// The centred average reaches its extreme up to one half-window before the raw trace
+// turns, so settle each boundary on the last raw sample still at the trough or peak
+const refineTurn = (data: TrackPointData[], index: number, kind: 'trough' | 'peak') => {
+  const sign = kind === 'trough' ? 1 : -1;
+  const until = data[index].time + 2 * SMOOTHING_WINDOW;
+  let end = index;
+  while (end + 1 < data.length && data[end + 1].time <= until) end++;
+
+  let extreme = sign * data[index].heartRate;
+  for (let j = index; j <= end; j++) extreme = Math.min(extreme, sign * data[j].heartRate);
+
+  let turn = index;
+  for (let j = index; j <= end; j++) {
+    if (sign * data[j].heartRate <= extreme + TROUGH_TOLERANCE) turn = j;
+  }
+  return turn;
+};
+
+const computeDrift = (window: IntervalWindow, planned: IntervalWindow | undefined): ScheduleDrift => {
+  if (!planned) return { start: 0, activeEnd: 0, recoveryEnd: 0 };
+  return {
+    start: window.start - planned.start,
+    activeEnd: window.activeEnd - planned.activeEnd,
+    recoveryEnd: window.recoveryEnd - planned.recoveryEnd
+  };
+};
+
+/**
+ * Finds work and rest segments from the heart-rate trace itself.
+ *
+ * The HR is smoothed and split with a hysteresis band between a low and a high
+ * threshold. Each upward crossing is walked back to where HR started rising (the
+ * interval start), and each downward crossing is walked back to the preceding peak
+ * (the end of the active phase). Recovery runs until the next interval starts.
+ * Drift is measured against the planned window at the same position.
+ */
+export const detectIntervals = (data: TrackPointData[], planned: IntervalWindow[]): DetectedInterval[] => {
+  if (data.length < 3) return [];
+
+  const smoothed = smoothHeartRate(data);
+  const sorted = [...smoothed].sort((a, b) => a - b);
+  const low = percentile(sorted, 0.2);
+  const high = percentile(sorted, 0.9);
+  if (high - low < 5) return [];
+
+  const upper = low + (high - low) * UPPER_THRESHOLD;
+  const lower = low + (high - low) * LOWER_THRESHOLD;
+
+  const bouts: { startIndex: number; peakIndex: number }[] = [];
+  let floorIndex = 0; // earliest index the next interval start may be placed at
+  let risingFrom: number | null = null;
+
+  for (let i = 1; i < smoothed.length; i++) {
+    if (risingFrom === null && smoothed[i] >= upper && smoothed[i - 1] < upper) {
+      risingFrom = findRiseStart(data, smoothed, i, floorIndex);
+    } else if (risingFrom !== null && smoothed[i] <= lower) {
+      // Walk back to the peak reached before the drop
+      let peak = risingFrom;
+      for (let j = risingFrom; j < i; j++) {
+        if (smoothed[j] > smoothed[peak]) peak = j;
+      }
+      bouts.push({ startIndex: risingFrom, peakIndex: peak });
+      floorIndex = peak;
+      risingFrom = null;
+    }
+  }
+
+  // A session can end mid-recovery; keep the last bout if it produced a clear peak
+  if (risingFrom !== null) {
+    let peak = risingFrom;
+    for (let j = risingFrom; j < smoothed.length; j++) {
+      if (smoothed[j] > smoothed[peak]) peak = j;
+    }
+    if (peak < smoothed.length - 1) bouts.push({ startIndex: risingFrom, peakIndex: peak });
+  }
+
+  const totalDuration = data[data.length - 1].time;
+
+  return bouts
+    .filter(bout => data[bout.peakIndex].time - data[bout.startIndex].time >= MIN_ACTIVE_DURATION)
+    .map(bout => ({
+      start: data[refineTurn(data, bout.startIndex, 'trough')].time,
+      activeEnd: data[refineTurn(data, bout.peakIndex, 'peak')].time
+    }))
+    .map(({ start, activeEnd }, i, kept) => {
+      const next = kept[i + 1];
+      // The last recovery is assumed to last as long as planned
+      const plan = planned[i] ?? planned[planned.length - 1];
+      const recoveryEnd = next
+        ? next.start
+        : Math.min(totalDuration, plan ? activeEnd + plan.recoveryEnd - plan.activeEnd : totalDuration);
+      const window = { start, activeEnd, recoveryEnd };
+      return { ...window, drift: computeDrift(window, planned[i]) };
+    });
+};
@@ -0,0 +1,117 @@
+import type { IntervalWindow } from './intervalDetection';
+
+export type BoundaryEdge = keyof IntervalWindow;
+
+export const BOUNDARY_EDGES: BoundaryEdge[] = ['start', 'activeEnd', 'recoveryEnd'];
+
+// Shortest active phase (seconds) an edit can leave behind
+const MIN_PHASE = 1;
+
+const byStart = (windows: IntervalWindow[]) => [...windows].sort((a, b) => a.start - b.start);
+
+// Plain copies of the windows, without drift or metrics attached
+export const toWindows = (windows: IntervalWindow[]): IntervalWindow[] =>
+  byStart(windows.map(({ start, activeEnd, recoveryEnd }) => ({ start, activeEnd, recoveryEnd })));
+
+/**
+ * Moves one boundary to a new time. The boundary stays between its neighbours:
+ * an interval cannot start before the previous recovery ends, its active phase
+ * keeps at least MIN_PHASE seconds, and recovery cannot run into the next interval.
+ * A recovery end shared with the next interval's start moves both together.
+ */
+export const moveBoundary = (
+  windows: IntervalWindow[],
+  index: number,
+  edge: BoundaryEdge,
+  time: number,
+  totalDuration: number
+): IntervalWindow[] => {
+  const window = windows[index];
+  if (!window) return windows;
+  const previous = windows[index - 1];
+  const next = windows[index + 1];
+  const clamp = (min: number, max: number) => Math.round(Math.min(Math.max(time, min), max));
+
+  // Treat a shared boundary as the recovery end of the earlier interval
+  if (edge === 'start' && previous && previous.recoveryEnd === window.start) {
+    return moveBoundary(windows, index - 1, 'recoveryEnd', time, totalDuration);
+  }
+
+  const updated = [...windows];
+  switch (edge) {
+    case 'start':
+      updated[index] = { ...window, start: clamp(previous?.recoveryEnd ?? 0, window.activeEnd - MIN_PHASE) };
+      break;
+    case 'activeEnd':
+      updated[index] = { ...window, activeEnd: clamp(window.start + MIN_PHASE, window.recoveryEnd) };
+      break;
+    case 'recoveryEnd':
+      if (next && next.start === window.recoveryEnd) {
+        const shared = clamp(window.activeEnd, next.activeEnd - MIN_PHASE);
+        updated[index] = { ...window, recoveryEnd: shared };
+        updated[index + 1] = { ...next, start: shared };
+      } else {
+        updated[index] = { ...window, recoveryEnd: clamp(window.activeEnd, next?.start ?? totalDuration) };
+      }
+      break;
+  }
+  return updated;
+};
+
+// Halves both phases, so each part keeps a work and a recovery portion
+export const splitInterval = (windows: IntervalWindow[], index: number): IntervalWindow[] => {
+  const window = windows[index];
+  if (!window || window.activeEnd - window.start < 2 * MIN_PHASE) return windows;
+  const activeHalf = Math.round((window.activeEnd - window.start) / 2);
+  const recoveryHalf = Math.round((window.recoveryEnd - window.activeEnd) / 2);
+  const firstEnd = window.start + activeHalf + recoveryHalf;
+  return [
+    ...windows.slice(0, index),
+    { start: window.start, activeEnd: window.start + activeHalf, recoveryEnd: firstEnd },
+    { start: firstEnd, activeEnd: firstEnd + (window.activeEnd - window.start - activeHalf), recoveryEnd: window.recoveryEnd },
+    ...windows.slice(index + 1)
+  ];
+};
+
+// Joins an interval with the next one; the first recovery becomes part of the work
+export const mergeWithNext = (windows: IntervalWindow[], index: number): IntervalWindow[] => {
+  const window = windows[index];
+  const next = windows[index + 1];
+  if (!window || !next) return windows;
+  return [
+    ...windows.slice(0, index),
+    { start: window.start, activeEnd: next.activeEnd, recoveryEnd: next.recoveryEnd },
+    ...windows.slice(index + 2)
+  ];
+};
+
+export const removeInterval = (windows: IntervalWindow[], index: number): IntervalWindow[] =>
+  windows.filter((_, i) => i !== index);
+
+// Appends an interval shaped like the last one, or returns the windows unchanged when it would not fit
+export const appendInterval = (windows: IntervalWindow[], totalDuration: number, fallback: IntervalWindow): IntervalWindow[] => {
+  const last = windows[windows.length - 1];
+  const shape = last ?? fallback;
+  const start = last ? last.recoveryEnd : fallback.start;
+  const activeEnd = start + (shape.activeEnd - shape.start);
+  if (activeEnd >= totalDuration) return windows;
+  return [...windows, { start, activeEnd, recoveryEnd: Math.min(totalDuration, activeEnd + shape.recoveryEnd - shape.activeEnd) }];
+};
+
+export interface BoundaryHit {
+  index: number;
+  edge: BoundaryEdge;
+  distance: number;
+}
+
+// Boundary closest to a time, if one lies within the tolerance (seconds)
+export const nearestBoundary = (windows: IntervalWindow[], time: number, tolerance: number) => {
+  let best: BoundaryHit | null = null;
+  for (const [index, window] of windows.entries()) {
+    for (const edge of BOUNDARY_EDGES) {
+      const distance = Math.abs(window[edge] - time);
+      if (distance <= tolerance && (!best || distance < best.distance)) best = { index, edge, distance };
+    }
+  }
+  return best;
+};
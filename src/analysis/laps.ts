@@ -0,0 +1,37 @@
+import type { ActivityLap, ActivityMarkers, ActivityPause } from '../types';
+import type { IntervalWindow } from './intervalDetection';
+
+export const NO_MARKERS: ActivityMarkers = { laps: [], pauses: [] };
+
+/**
+ * Builds interval windows from device laps. With Active/Resting intensities
+ * every Active lap followed by a Resting lap is one interval. Without them the
+ * first and last laps are taken as warmup and cooldown and the laps between
+ * alternate work and recovery.
+ */
+export const lapWindows = (laps: ActivityLap[], endTime: number): IntervalWindow[] => {
+  const sorted = [...laps].filter(lap => lap.start < endTime).sort((a, b) => a.start - b.start);
+  const lapEnd = (index: number) => index + 1 < sorted.length ? sorted[index + 1].start : endTime;
+  const windows: IntervalWindow[] = [];
+
+  if (sorted.some(lap => lap.intensity === 'resting')) {
+    for (let i = 0; i < sorted.length - 1; i++) {
+      if (sorted[i].intensity === 'resting' || sorted[i + 1].intensity !== 'resting') continue;
+      windows.push({ start: sorted[i].start, activeEnd: sorted[i + 1].start, recoveryEnd: lapEnd(i + 1) });
+      i++;
+    }
+    return windows;
+  }
+
+  for (let i = 1; i + 1 < sorted.length - 1; i += 2) {
+    windows.push({ start: sorted[i].start, activeEnd: sorted[i + 1].start, recoveryEnd: lapEnd(i + 1) });
+  }
+  return windows;
+};
+
+export const pausedSeconds = (pauses: ActivityPause[]) =>
+  pauses.reduce((sum, pause) => sum + (pause.end - pause.start), 0);
+
+// Samples logged while the recording was paused, if the device kept any
+export const isPaused = (time: number, pauses: ActivityPause[]) =>
+  pauses.some(pause => time > pause.start && time < pause.end);
@@ -0,0 +1,72 @@
+import type { TrackPointData, TrainingParams } from '../types';
+import { DEFAULT_MAX_GAP, percentMaxZones, timeInZones } from './zones';
+
+export interface TrainingLoad {
+  // Banister's exponentially weighted TRIMP
+  banisterTrimp: number;
+  // Edwards' zone-weighted TRIMP (minutes in 50-100% max HR bands x 1..5)
+  edwardsTrimp: number;
+  // Highest estimated EPOC reached during the session, ml/kg
+  peakEpoc: number;
+  // 1.0-5.0 scale derived from peak EPOC
+  trainingEffect: number;
+}
+
+type LoadParams = Pick<TrainingParams, 'maxHR' | 'restingHR' | 'sex'> & { maxGap?: number };
+
+const BANISTER_K = { male: 1.92, female: 1.67 };
+
+// EPOC model: each minute adds EPOC_RATE * e^(EPOC_EXPONENT * %HRR), and the
+// accumulated debt decays with EPOC_DECAY minutes. Constants are chosen so that
+// 30 minutes at 70% HRR gives a training effect near 3
+const EPOC_RATE = 0.05;
+const EPOC_EXPONENT = 6;
+const EPOC_DECAY = 30;
+const EPOC_TE_BASE = 15; // ml/kg for a training effect of 1.0
+
+const heartRateReserveFraction = (heartRate: number, params: LoadParams) => {
+  const reserve = params.maxHR - params.restingHR;
+  if (reserve <= 0) return 0;
+  return Math.min(1, Math.max(0, (heartRate - params.restingHR) / reserve));
+};
+
+export const TRAINING_EFFECT_LABELS = ['Minor', 'Maintaining', 'Improving', 'Highly Improving', 'Overreaching'];
+
+export const trainingEffectLabel = (trainingEffect: number) =>
+  TRAINING_EFFECT_LABELS[Math.min(4, Math.max(0, Math.floor(trainingEffect) - 1))];
+
+export const calculateTrainingLoad = (data: TrackPointData[], params: LoadParams): TrainingLoad => {
+  const maxGap = params.maxGap ?? DEFAULT_MAX_GAP;
+  const k = BANISTER_K[params.sex];
+
+  let banister = 0;
+  let epoc = 0;
+  let peakEpoc = 0;
+  for (let i = 0; i < data.length - 1; i++) {
+    const minutes = Math.min(data[i + 1].time - data[i].time, maxGap) / 60;
+    if (minutes <= 0) continue;
+    const hrr = heartRateReserveFraction(data[i].heartRate, params);
+
+    banister += minutes * hrr * 0.64 * Math.exp(k * hrr);
+
+    epoc = epoc * Math.exp(-minutes / EPOC_DECAY) + EPOC_RATE * Math.exp(EPOC_EXPONENT * hrr) * minutes;
+    peakEpoc = Math.max(peakEpoc, epoc);
+  }
+
+  // Edwards always uses the classic 50-100% max HR bands, whatever zone model is shown
+  const edwardsZones = Object.fromEntries(percentMaxZones(params.maxHR).map((zone, index) => [`zone${index + 1}`, zone]));
+  const edwardsTime = timeInZones(data, edwardsZones, maxGap);
+  const edwards = Object.keys(edwardsZones)
+    .reduce((sum, key, index) => sum + (edwardsTime.seconds[key] / 60) * (index + 1), 0);
+
+  const trainingEffect = peakEpoc > 0
+    ? Math.min(5, Math.max(1, 1 + Math.log2(peakEpoc / EPOC_TE_BASE)))
+    : 1;
+
+  return {
+    banisterTrimp: Math.round(banister),
+    edwardsTrimp: Math.round(edwards),
+    peakEpoc: Math.round(peakEpoc),
+    trainingEffect: Math.round(trainingEffect * 10) / 10
+  };
+};
@@ -0,0 +1,57 @@
+import type { PlanStepType } from '../types';
+import type { IntervalWindow } from './intervalDetection';
+
+export type PhaseType = PlanStepType;
+
+export interface PhaseSegment {
+  type: PhaseType;
+  // 1-based interval number for active and recovery segments
+  interval: number | null;
+  start: number;
+  end: number;
+}
+
+interface PhaseBoundaries {
+  warmupEnd: number;
+  cooldownStart: number;
+  intervals: (IntervalWindow & { interval: number })[];
+}
+
+/**
+ * Splits the session into contiguous segments covering 0..endTime. Stretches
+ * between intervals that no window accounts for are tagged 'rest'.
+ */
+export const sessionPhases = (boundaries: PhaseBoundaries, endTime: number): PhaseSegment[] => {
+  const segments: PhaseSegment[] = [];
+  const push = (type: PhaseType, interval: number | null, start: number, end: number) => {
+    const from = Math.max(start, segments.length > 0 ? segments[segments.length - 1].end : 0);
+    const to = Math.min(end, endTime);
+    if (to > from) segments.push({ type, interval, start: from, end: to });
+  };
+
+  push('warmup', null, 0, boundaries.warmupEnd);
+  for (const window of boundaries.intervals) {
+    push('rest', null, 0, window.start);
+    push('active', window.interval, window.start, window.activeEnd);
+    push('recovery', window.interval, window.activeEnd, window.recoveryEnd);
+  }
+  push('rest', null, 0, boundaries.cooldownStart);
+  push('cooldown', null, boundaries.cooldownStart, endTime);
+
+  return segments;
+};
+
+// Segment containing the given time; the last segment includes its end
+export const phaseAt = (segments: PhaseSegment[], time: number) =>
+  segments.find(segment => time >= segment.start && time < segment.end) ??
+  (segments.length > 0 && time === segments[segments.length - 1].end ? segments[segments.length - 1] : null);
+
+// Shading for the phases drawn behind the heart rate line
+export const PHASE_SHADES: Partial<Record<PhaseType, string>> = {
+  active: '#EF4444',
+  recovery: '#10B981',
+  rest: '#10B981'
+};
+
+export const phaseLabel = (segment: PhaseSegment) =>
+  segment.interval !== null ? `${segment.type} ${segment.interval}` : segment.type;
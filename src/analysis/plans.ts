@@ -0,0 +1,138 @@
+import type { IntervalSchedule, PlanStep, TrainingParams, WorkoutPlan } from '../types';
+import { plannedWindows } from './intervalDetection';
+import type { IntervalWindow } from './intervalDetection';
+
+export interface PlannedInterval extends IntervalWindow {
+  name: string;
+  targetZone: string | null;
+  recoveryTargetZone: string | null;
+}
+
+// Where the planned structure puts warmup, intervals and cooldown in a session
+export interface PlanLayout {
+  warmupEnd: number;
+  cooldownStart: number;
+  windows: PlannedInterval[];
+}
+
+const step = (name: string, type: PlanStep['type'], duration: number, targetZone: string | null = null): PlanStep =>
+  ({ name, type, duration, targetZone });
+
+const repeat = (count: number, steps: (round: number) => PlanStep[]) =>
+  Array.from({ length: count }, (_, i) => steps(i + 1)).flat();
+
+export const BUILT_IN_PLANS: WorkoutPlan[] = [
+  {
+    name: 'Tabata (8 × 20/10)',
+    steps: [
+      step('Warmup', 'warmup', 600),
+      ...repeat(8, round => [step(`Sprint ${round}`, 'active', 20, 'zone5'), step(`Rest ${round}`, 'rest', 10)]),
+      step('Cooldown', 'cooldown', 300)
+    ]
+  },
+  {
+    name: 'Pyramid (30/60/90/60/30)',
+    steps: [
+      step('Warmup', 'warmup', 600),
+      ...[30, 60, 90, 60, 30].flatMap((seconds, i) => [
+        step(`Work ${seconds}s`, 'active', seconds, 'zone5'),
+        step(`Recovery ${i + 1}`, 'recovery', seconds, 'zone3')
+      ]),
+      step('Cooldown', 'cooldown', 300)
+    ]
+  },
+  {
+    name: 'EMOM (10 × 40/20)',
+    steps: [
+      step('Warmup', 'warmup', 600),
+      ...repeat(10, round => [step(`Minute ${round}`, 'active', 40, 'zone4'), step(`Rest ${round}`, 'rest', 20)]),
+      step('Cooldown', 'cooldown', 300)
+    ]
+  },
+  {
+    name: 'Norwegian 4 × 4',
+    steps: [
+      step('Warmup', 'warmup', 600),
+      ...repeat(4, round => [
+        step(`Set ${round}`, 'active', 240, 'zone5'),
+        step(`Active recovery ${round}`, 'recovery', 180, 'zone3')
+      ]),
+      step('Cooldown', 'cooldown', 300)
+    ]
+  }
+];
+
+export const planDuration = (plan: WorkoutPlan) => plan.steps.reduce((sum, s) => sum + s.duration, 0);
+
+/**
+ * Lays a plan out from the start of the session. Each active step followed by
+ * a recovery or rest step is one interval; an active step without one has no
+ * recovery phase. Everything after the plan ends counts as cooldown.
+ */
+export const planLayout = (plan: WorkoutPlan, totalDuration: number): PlanLayout => {
+  const windows: PlannedInterval[] = [];
+  let warmupEnd = 0;
+  let cooldownStart: number | null = null;
+  let time = 0;
+
+  plan.steps.forEach((current, index) => {
+    const start = time;
+    time += current.duration;
+    if (current.type === 'warmup' && windows.length === 0) warmupEnd = time;
+    if (current.type === 'cooldown' && cooldownStart === null) cooldownStart = start;
+    if (current.type !== 'active') return;
+
+    const next = plan.steps[index + 1];
+    const recovers = next !== undefined && (next.type === 'recovery' || next.type === 'rest');
+    windows.push({
+      name: current.name,
+      targetZone: current.targetZone,
+      start,
+      activeEnd: time,
+      recoveryEnd: recovers ? time + next.duration : time,
+      recoveryTargetZone: recovers ? next.targetZone : null
+    });
+  });
+
+  return { warmupEnd, cooldownStart: Math.min(cooldownStart ?? time, totalDuration), windows };
+};
+
+/**
+ * The planned interval a detected, lap or corrected window stands for: of the
+ * planned intervals it overlaps, the one starting nearest to it. Null when it
+ * overlaps none, so a missed or extra interval does not shift the rest.
+ */
+export const matchPlannedInterval = (planned: PlannedInterval[], window: IntervalWindow): PlannedInterval | null =>
+  planned
+    .filter(candidate => candidate.start < window.recoveryEnd && window.start < candidate.recoveryEnd)
+    .reduce<PlannedInterval | null>((best, candidate) =>
+      best === null || Math.abs(candidate.start - window.start) < Math.abs(best.start - window.start) ? candidate : best, null);
+
+export const scheduleLayout = (schedule: IntervalSchedule, totalDuration: number): PlanLayout => ({
+  warmupEnd: schedule.warmupTime,
+  cooldownStart: totalDuration - schedule.cooldownTime,
+  windows: plannedWindows(schedule).map((window, i) => ({
+    ...window,
+    name: `Interval ${i + 1}`,
+    targetZone: null,
+    recoveryTargetZone: null
+  }))
+});
+
+// Length of the whole workout as planned, in seconds
+export const plannedDuration = (params: TrainingParams) =>
+  params.plan
+    ? planDuration(params.plan)
+    : params.warmupTime + params.intervals * (params.activePhase + params.recoveryPhase) + params.cooldownTime;
+
+// The workout plan when one is selected, otherwise the uniform schedule
+export const plannedLayout = (params: TrainingParams, totalDuration: number) =>
+  params.plan ? planLayout(params.plan, totalDuration) : scheduleLayout(params, totalDuration);
+
+export const planProblems = (plan: WorkoutPlan) => {
+  const problems: string[] = [];
+  if (plan.steps.length === 0) return ['The plan has no steps.'];
+  if (plan.steps.some(s => !(s.duration > 0))) problems.push('Every step needs a positive duration.');
+  if (!plan.steps.some(s => s.type === 'active')) problems.push('The plan has no active steps to score.');
+  return problems;
+};
@@ -0,0 +1,83 @@
+import type { TrackPointData } from '../types';
+
+export const HRR_OFFSETS = [30, 60, 120] as const;
+
+// HR drop in bpm at each standard offset after the active phase, null when the
+// recovery window is shorter than the offset
+export interface HeartRateRecovery {
+  hrr30: number | null;
+  hrr60: number | null;
+  hrr120: number | null;
+  // Time constant (seconds) of the fitted exponential decay
+  tau: number | null;
+}
+
+const MAX_SAMPLE_GAP = 10; // seconds; no value is interpolated across a larger gap
+const TAU_MIN = 5;
+const TAU_MAX = 300;
+const TAU_STEP = 1;
+// Shorter recoveries do not show enough of the decay to tell its time constant
+const MIN_FIT_WINDOW = 30;
+
+// Linearly interpolated HR at time t, or null when no samples surround it closely
+export const heartRateAt = (data: TrackPointData[], t: number): number | null => {
+  const index = data.findIndex(d => d.time >= t);
+  if (index < 0) return null;
+  if (data[index].time === t) return data[index].heartRate;
+  if (index === 0) return null;
+  const before = data[index - 1];
+  const after = data[index];
+  const gap = after.time - before.time;
+  if (gap > MAX_SAMPLE_GAP) return null;
+  return before.heartRate + (after.heartRate - before.heartRate) * (t - before.time) / gap;
+};
+
+/**
+ * Fits HR(t) = floor + amplitude * exp(-t / tau) to a recovery by scanning tau
+ * and solving floor and amplitude by least squares for each candidate.
+ */
+export const fitRecoveryTau = (points: { t: number; hr: number }[]): number | null => {
+  if (points.length < 5 || points[points.length - 1].t - points[0].t < MIN_FIT_WINDOW) return null;
+
+  let best: { tau: number; sse: number } | null = null;
+  for (let tau = TAU_MIN; tau <= TAU_MAX; tau += TAU_STEP) {
+    const xs = points.map(p => Math.exp(-p.t / tau));
+    const n = points.length;
+    const sumX = xs.reduce((sum, x) => sum + x, 0);
+    const sumY = points.reduce((sum, p) => sum + p.hr, 0);
+    const sumXX = xs.reduce((sum, x) => sum + x * x, 0);
+    const sumXY = xs.reduce((sum, x, i) => sum + x * points[i].hr, 0);
+    const denominator = n * sumXX - sumX * sumX;
+    if (denominator === 0) continue;
+
+    const amplitude = (n * sumXY - sumX * sumY) / denominator;
+    if (amplitude <= 0) continue; // HR is not decaying for this tau
+    const floor = (sumY - amplitude * sumX) / n;
+    const sse = points.reduce((sum, p, i) => sum + (p.hr - floor - amplitude * xs[i]) ** 2, 0);
+    if (!best || sse < best.sse) best = { tau, sse };
+  }
+
+  // A tau pinned to either edge of the scan means the curve is not exponential
+  if (!best || best.tau === TAU_MIN || best.tau === TAU_MAX) return null;
+  return best.tau;
+};
+
+export const measureRecovery = (data: TrackPointData[], activeEnd: number, recoveryEnd: number): HeartRateRecovery => {
+  const endHR = heartRateAt(data, activeEnd);
+  const dropAt = (offset: number) => {
+    if (endHR === null || activeEnd + offset > recoveryEnd) return null;
+    const hr = heartRateAt(data, activeEnd + offset);
+    return hr === null ? null : Math.round(endHR - hr);
+  };
+
+  const recoveryPoints = data
+    .filter(d => d.time >= activeEnd && d.time <= recoveryEnd)
+    .map(d => ({ t: d.time - activeEnd, hr: d.heartRate }));
+
+  return {
+    hrr30: dropAt(HRR_OFFSETS[0]),
+    hrr60: dropAt(HRR_OFFSETS[1]),
+    hrr120: dropAt(HRR_OFFSETS[2]),
+    tau: fitRecoveryTau(recoveryPoints)
+  };
+};
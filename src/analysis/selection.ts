@@ -0,0 +1,36 @@
+import type { TrackPointData } from '../types';
+import { DEFAULT_MAX_GAP, timeInZones } from './zones';
+import type { HRZones, ZoneTime } from './zones';
+
+// Summary of an ad-hoc range picked on the chart, times in seconds
+export interface RangeStats {
+  start: number;
+  end: number;
+  duration: number;
+  avgHR: number;
+  maxHR: number;
+  minHR: number;
+  zoneTime: ZoneTime;
+}
+
+export const rangeStats = (
+  data: TrackPointData[],
+  start: number,
+  end: number,
+  zones: HRZones,
+  maxGap: number = DEFAULT_MAX_GAP
+): RangeStats | null => {
+  const inRange = data.filter(d => d.time >= start && d.time <= end);
+  if (inRange.length === 0) return null;
+
+  const heartRates = inRange.map(d => d.heartRate);
+  return {
+    start,
+    end,
+    duration: end - start,
+    avgHR: Math.round(heartRates.reduce((sum, hr) => sum + hr, 0) / heartRates.length),
+    maxHR: Math.max(...heartRates),
+    minHR: Math.min(...heartRates),
+    zoneTime: timeInZones(inRange, zones, maxGap)
+  };
+};
@@ -0,0 +1,205 @@
+import { describe, expect, it } from 'vitest';
+import type { TrainingParams } from '../types';
+import { parseTCX } from '../importers/tcx';
+import { cleanHeartRate } from './cleaning';
+import { sessionPhases } from './phases';
+import { BUILT_IN_PLANS } from './plans';
+import { fitRecoveryTau } from './recovery';
+import { DEFAULT_PARAMS, analyzeHIIT, buildChartData } from './session';
+import intervalsFixture from './__fixtures__/intervals-6x2.tcx?raw';
+import tabataFixture from './__fixtures__/tabata-paused.tcx?raw';
+
+// Same pipeline as the app: import, clean, analyze
+const analyzeFixture = (xml: string, params: TrainingParams) => {
+  const activity = parseTCX(xml);
+  const cleaned = cleanHeartRate(activity.points, params.cleaning, params.maxGap, activity.pauses);
+  return { activity, cleaned, analysis: analyzeHIIT(cleaned.data, params, activity) };
+};
+
+const windowsOf = (intervals: { start: number; activeEnd: number; recoveryEnd: number }[]) =>
+  intervals.map(({ start, activeEnd, recoveryEnd }) => [start, activeEnd, recoveryEnd]);
+
+// 5 min warmup, 6 × (2 min work / 2 min easy), 3 min cooldown, 2 s samples with one optical spike
+describe('6 × 2 min intervals fixture', () => {
+  const schedule = analyzeFixture(intervalsFixture, DEFAULT_PARAMS);
+
+  it('imports the samples and laps and removes the spike', () => {
+    expect(schedule.activity.points).toHaveLength(959);
+    expect(schedule.activity.laps).toHaveLength(14);
+    expect(schedule.activity.pauses).toEqual([]);
+    expect(schedule.cleaned.report).toMatchObject({ inputPoints: 959, outputPoints: 958, outliers: 1, flatlined: 0, rateLimited: 0 });
+  });
+
+  it('pins the session metrics', () => {
+    const { analysis } = schedule;
+    expect(analysis).toMatchObject({
+      avgHR: 138,
+      perceivedIntensity: 79,
+      calories: 446,
+      totalDuration: 32,
+      pausedTime: 0,
+      highIntensityShare: 46,
+      zoneTotalSeconds: 1918,
+      channels: [],
+      decoupling: null
+    });
+    expect(analysis.zoneDistribution).toEqual({ zone1: 46, zone2: 418, zone3: 564, zone4: 322, zone5: 556 });
+    expect(analysis.load).toEqual({ banisterTrimp: 59, edwardsTrimp: 111, peakEpoc: 111, trainingEffect: 3.9 });
+  });
+
+  it('keeps only the planned intervals that end before the cooldown', () => {
+    const { analysis } = schedule;
+    expect(analysis.warmupEnd).toBe(300);
+    expect(analysis.cooldownStart).toBe(1738);
+    expect(windowsOf(analysis.intervals)).toEqual([
+      [300, 420, 540], [540, 660, 780], [780, 900, 1020], [1020, 1140, 1260], [1260, 1380, 1500]
+    ]);
+    expect(analysis.intervals.map(interval => interval.recoveryScore)).toEqual([46, 46, 47, 46, 46]);
+    expect(analysis.cumulativeRecoveryScore).toBe(231);
+    expect(analysis.recoveryScores.map(({ hrr30, hrr60, hrr120, tau }) => [hrr30, hrr60, hrr120, tau])).toEqual([
+      [25, 37, 41, 39], [21, 32, 38, 40], [22, 33, 35, 37], [21, 33, 35, 40], [24, 36, 40, 39]
+    ]);
+    expect(analysis.compliance).toEqual({ overall: 79, active: 90, recovery: 68, passedIntervals: 5, scoredIntervals: 5 });
+  });
+
+  it('detects all six intervals from the heart rate with their drift', () => {
+    const { analysis } = analyzeFixture(intervalsFixture, { ...DEFAULT_PARAMS, intervalDetection: 'auto' });
+    expect(windowsOf(analysis.intervals)).toEqual([
+      [298, 420, 540], [540, 658, 778], [778, 896, 1018], [1018, 1136, 1258], [1258, 1380, 1494], [1494, 1614, 1734]
+    ]);
+    expect(analysis.intervals.map(interval => interval.drift)).toEqual([
+      { start: -2, activeEnd: 0, recoveryEnd: 0 },
+      { start: 0, activeEnd: -2, recoveryEnd: -2 },
+      { start: -2, activeEnd: -4, recoveryEnd: -2 },
+      { start: -2, activeEnd: -4, recoveryEnd: -2 },
+      { start: -2, activeEnd: 0, recoveryEnd: -6 },
+      { start: -6, activeEnd: -6, recoveryEnd: -6 }
+    ]);
+    expect(analysis.cumulativeRecoveryScore).toBe(277);
+    expect(analysis.compliance).toEqual({ overall: 77, active: 89, recovery: 66, passedIntervals: 6, scoredIntervals: 6 });
+  });
+
+  it('follows the device laps', () => {
+    const { analysis } = analyzeFixture(intervalsFixture, { ...DEFAULT_PARAMS, intervalDetection: 'laps' });
+    expect(windowsOf(analysis.intervals)).toEqual([
+      [300, 420, 540], [540, 660, 780], [780, 900, 1020], [1020, 1140, 1260], [1260, 1380, 1500], [1500, 1620, 1740]
+    ]);
+    expect(analysis.cooldownStart).toBe(1740);
+    expect(analysis.intervals.every(interval => interval.drift === undefined)).toBe(true);
+  });
+
+  it('builds chart points and phases from the analysis', () => {
+    const { cleaned, analysis } = schedule;
+    const chartData = buildChartData(cleaned.data, analysis.zones);
+    expect(chartData).toHaveLength(cleaned.data.length);
+    // Zone 1 starts at 88 bpm with the default 175 max, so 80 bpm is below every zone
+    expect(analysis.zones.zone1.min).toBe(88);
+    expect(chartData[1]).toMatchObject({ time: 2, heartRate: 80, timeMinutes: 0.033, zone: null });
+    const atBound = buildChartData([
+      { time: 0, heartRate: 88, timestamp: new Date(0) },
+      { time: 1, heartRate: 87, timestamp: new Date(1000) }
+    ], analysis.zones);
+    expect(atBound.map(point => point.zone)).toEqual(['zone1', null]);
+
+    const phases = sessionPhases(analysis, cleaned.data[cleaned.data.length - 1].time);
+    expect(phases[0]).toEqual({ type: 'warmup', interval: null, start: 0, end: 300 });
+    expect(phases.filter(phase => phase.type === 'active')).toHaveLength(5);
+  });
+
+  it('is pure', () => {
+    const data = structuredClone(schedule.cleaned.data);
+    const params = structuredClone(DEFAULT_PARAMS);
+    const first = analyzeHIIT(data, params);
+    expect(analyzeHIIT(data, params)).toEqual(first);
+    expect(data).toEqual(schedule.cleaned.data);
+    expect(params).toEqual(DEFAULT_PARAMS);
+  });
+});
+
+// Tabata 8 × 20/10 after a 10 min warmup, cooldown split by a 60 s pause, 2 s samples with power
+describe('Tabata fixture with a pause', () => {
+  const tabata = analyzeFixture(tabataFixture, { ...DEFAULT_PARAMS, plan: BUILT_IN_PLANS[0] });
+
+  it('detects the pause and leaves it out of duration and calories', () => {
+    const { activity, analysis } = tabata;
+    expect(activity.points).toHaveLength(570);
+    expect(activity.laps).toHaveLength(18);
+    expect(activity.pauses).toEqual([{ start: 958, end: 1020 }]);
+    expect(analysis).toMatchObject({
+      pausedTime: 62,
+      totalDuration: 19,
+      avgHR: 129,
+      perceivedIntensity: 74,
+      calories: 245,
+      highIntensityShare: 22,
+      zoneTotalSeconds: 1146
+    });
+    expect(analysis.zoneDistribution).toEqual({ zone1: 10, zone2: 778, zone3: 102, zone4: 24, zone5: 230 });
+    expect(analysis.load).toEqual({ banisterTrimp: 28, edwardsTrimp: 52, peakEpoc: 63, trainingEffect: 3.1 });
+  });
+
+  it('lays the intervals out from the plan with its targets', () => {
+    const { analysis } = tabata;
+    expect(analysis.warmupEnd).toBe(600);
+    expect(analysis.cooldownStart).toBe(840);
+    expect(analysis.intervals.map(interval => [interval.name, interval.targetZone, interval.recoveryScore])).toEqual([
+      ['Sprint 1', 'zone5', 3], ['Sprint 2', 'zone5', 6], ['Sprint 3', 'zone5', 7], ['Sprint 4', 'zone5', 9],
+      ['Sprint 5', 'zone5', 7], ['Sprint 6', 'zone5', 5], ['Sprint 7', 'zone5', 8], ['Sprint 8', 'zone5', 10]
+    ]);
+    expect(analysis.intervals.map(interval => interval.compliance.active?.share)).toEqual([30, 100, 100, 100, 100, 100, 100, 100]);
+    // 10 s rests are too short to fit a recovery time constant
+    expect(analysis.recoveryScores.map(score => score.tau)).toEqual(Array(8).fill(null));
+    expect(analysis.cumulativeRecoveryScore).toBe(55);
+    // The 10 s rests carry no target, so only the sprints are scored; the first one is still ramping up
+    expect(analysis.intervals.map(interval => interval.compliance.recovery)).toEqual(Array(8).fill(null));
+    expect(analysis.compliance).toEqual({ overall: 91, active: 91, recovery: null, passedIntervals: 7, scoredIntervals: 8 });
+  });
+
+  it('scores a final sprint that runs straight into the cooldown', () => {
+    const plan = BUILT_IN_PLANS[0];
+    const { analysis } = analyzeFixture(tabataFixture, {
+      ...DEFAULT_PARAMS,
+      plan: { ...plan, steps: plan.steps.filter(step => step.name !== 'Rest 8') }
+    });
+    expect(analysis.cooldownStart).toBe(830);
+    expect(analysis.intervals).toHaveLength(8);
+    expect(analysis.recoveryScores[7]).toMatchObject({
+      name: 'Sprint 8', maxActive: 174, minRecovery: null, recoveryScore: null, hrr30: null, tau: null, compliance: { recovery: null, passed: true }
+    });
+  });
+
+  it('matches corrected windows to the plan steps they overlap', () => {
+    const { activity, cleaned } = tabata;
+    // Sprint 2 missed, Sprint 3 found a second late, and an effort in the cooldown
+    const corrected = [
+      { start: 600, activeEnd: 620, recoveryEnd: 630 },
+      { start: 661, activeEnd: 680, recoveryEnd: 690 },
+      { start: 1100, activeEnd: 1120, recoveryEnd: 1130 }
+    ];
+    const analysis = analyzeHIIT(cleaned.data, { ...DEFAULT_PARAMS, plan: BUILT_IN_PLANS[0] }, activity, corrected);
+    expect(analysis.intervals.map(interval => [interval.name, interval.targetZone])).toEqual([
+      ['Sprint 1', 'zone5'], ['Sprint 3', 'zone5'], ['Interval 3', null]
+    ]);
+  });
+
+  it('reads the power channel', () => {
+    const { analysis } = tabata;
+    expect(analysis.channels).toEqual(['power']);
+    expect(analysis.intervals.map(interval => interval.avgPower)).toEqual([206, 245, 252, 255, 255, 255, 255, 257]);
+    expect(analysis.decoupling).toBe(-2.1);
+  });
+});
+
+describe('recovery time constant', () => {
+  const decay = (seconds: number, tau: number) =>
+    Array.from({ length: seconds / 2 + 1 }, (_, i) => ({ t: i * 2, hr: 110 + 50 * Math.exp(-i * 2 / tau) }));
+
+  it('fits a full recovery', () => {
+    expect(fitRecoveryTau(decay(120, 30))).toBe(30);
+  });
+
+  it('leaves short rests and edge-of-scan fits unscored', () => {
+    expect(fitRecoveryTau(decay(20, 8))).toBeNull();
+    expect(fitRecoveryTau(decay(120, 2))).toBeNull();
+  });
+});
@@ -0,0 +1,271 @@
+import type { ActivityMarkers, BeatInterval, ChannelKey, IntervalDetectionMode, TrackPointData, TrainingParams } from '../types';
+import { detectIntervals } from './intervalDetection';
+import type { IntervalWindow, ScheduleDrift } from './intervalDetection';
+import { NO_MARKERS, isPaused, lapWindows, pausedSeconds } from './laps';
+import { calculateTrainingLoad } from './load';
+import { activeChannelAverages, availableChannels, powerDecoupling } from './channels';
+import type { ActiveChannels } from './channels';
+import { DEFAULT_TARGETS, intervalCompliance, segmentCompliance, sessionCompliance } from './compliance';
+import type { IntervalCompliance, SessionCompliance } from './compliance';
+import { DEFAULT_CLEANING } from './cleaning';
+import { analyzeHrv } from './hrv';
+import type { SessionHrv } from './hrv';
+import { sessionPhases } from './phases';
+import { matchPlannedInterval, plannedLayout } from './plans';
+import { measureRecovery } from './recovery';
+import type { HeartRateRecovery } from './recovery';
+import type { TrainingLoad } from './load';
+import { DEFAULT_MAX_GAP, DEFAULT_ZONE_MODEL, calculateHRZones, findZone, highIntensityPercentage, timeInZones } from './zones';
+import type { HRZones } from './zones';
+
+export const calculateCalories = (avgHR: number, durationMinutes: number, params: TrainingParams) => {
+  // More accurate calorie calculation using heart rate reserve method
+  const hrReserve = params.maxHR - params.restingHR;
+  const workingHR = avgHR - params.restingHR;
+  const hrIntensity = workingHR / hrReserve;
+  
+  // Sex-based metabolic rate adjustment
+  const sexFactor = params.sex === 'male' ? 1.0 : 0.9;
+  
+  // More conservative calorie estimation (3.5-12 METs range)
+  const mets = 3.5 + (hrIntensity * 8.5); // Scale from 3.5 to 12 METs
+  const caloriesPerMinute = (mets * 3.5 * params.weight * sexFactor) / 200;
+  
+  return Math.round(caloriesPerMinute * durationMinutes);
+};
+
+export const DETECTION_LABELS: Record<IntervalDetectionMode, string> = {
+  schedule: 'Planned schedule',
+  auto: 'Detect from heart rate',
+  laps: 'Use lap markers'
+};
+
+// Starting parameters until an athlete profile or saved session provides better ones
+export const DEFAULT_PARAMS: TrainingParams = {
+  athleteId: null,
+  maxHR: 175,
+  restingHR: 60,
+  age: 51,
+  weight: 86,
+  sex: 'male',
+  warmupTime: 300, // 5 minutes in seconds
+  activePhase: 120,
+  recoveryPhase: 120,
+  intervals: 6,
+  cooldownTime: 180,
+  intervalDetection: 'schedule',
+  maxGap: DEFAULT_MAX_GAP,
+  zoneModel: DEFAULT_ZONE_MODEL,
+  cleaning: DEFAULT_CLEANING,
+  plan: null,
+  targets: DEFAULT_TARGETS
+};
+
+// Figures for one interval, shared by the interval and recovery tables
+export interface IntervalSummary extends ActiveChannels {
+  // 1-based position in the session
+  interval: number;
+  name: string;
+  targetZone: string | null;
+  maxActive: number;
+  // Null when the interval has no recovery phase, as for back-to-back work steps
+  minRecovery: number | null;
+  // Drop from the active peak to the recovery low, bpm
+  recoveryScore: number | null;
+  compliance: IntervalCompliance;
+}
+
+export interface IntervalResult extends IntervalSummary, IntervalWindow {
+  // Only set when the interval was detected from the heart rate
+  drift?: ScheduleDrift;
+}
+
+export interface RecoveryResult extends IntervalSummary, HeartRateRecovery {}
+
+export interface SessionAnalysis {
+  zones: HRZones;
+  intervals: IntervalResult[];
+  recoveryScores: RecoveryResult[];
+  cumulativeRecoveryScore: number;
+  compliance: SessionCompliance;
+  // Seconds per zone key
+  zoneDistribution: Record<string, number>;
+  zoneTotalSeconds: number;
+  highIntensityShare: number;
+  avgHR: number;
+  perceivedIntensity: number;
+  calories: number;
+  load: TrainingLoad;
+  channels: ChannelKey[];
+  decoupling: number | null;
+  // Null unless the recording has beat-to-beat intervals
+  hrv: SessionHrv | null;
+  // Whole minutes, excluding paused time
+  totalDuration: number;
+  pausedTime: number;
+  warmupEnd: number;
+  cooldownStart: number;
+}
+
+// Sample as drawn on the chart, with its x position in minutes and its zone key
+export interface ChartPoint extends TrackPointData {
+  timeMinutes: number;
+  // Null below zone 1, as in timeInZones
+  zone: string | null;
+}
+
+/**
+ * Analyzes a cleaned heart-rate trace against the training parameters. Pure:
+ * the same samples, parameters, markers, corrections and beats give the same
+ * result.
+ */
+export const analyzeHIIT = (
+  data: TrackPointData[],
+  params: TrainingParams,
+  markers: ActivityMarkers = NO_MARKERS,
+  corrected: IntervalWindow[] | null = null,
+  rrIntervals: BeatInterval[] = []
+): SessionAnalysis => {
+  const zones = calculateHRZones(params.maxHR, params.zoneModel, params.restingHR);
+  const totalDuration = data[data.length - 1].time;
+  
+  // Define HIIT phases from the workout plan, or the uniform schedule without one
+  const layout = plannedLayout(params, totalDuration);
+  let warmupEnd = layout.warmupEnd;
+  let cooldownStart = layout.cooldownStart;
+  
+  // Hand-corrected boundaries win; otherwise trust the planned schedule, find the
+  // work/rest segments in the HR trace, or follow the device laps
+  let windows: (IntervalWindow & { drift?: ScheduleDrift })[];
+  if (corrected) {
+    windows = corrected;
+    if (windows.length > 0) {
+      warmupEnd = windows[0].start;
+      cooldownStart = windows[windows.length - 1].recoveryEnd;
+    }
+  } else if (params.intervalDetection === 'auto' || params.intervalDetection === 'laps') {
+    windows = params.intervalDetection === 'auto' ? detectIntervals(data, layout.windows) : lapWindows(markers.laps, totalDuration);
+    if (windows.length > 0) {
+      warmupEnd = windows[0].start;
+      cooldownStart = windows[windows.length - 1].recoveryEnd;
+    }
+  } else {
+    windows = layout.windows.filter(window => window.recoveryEnd <= cooldownStart);
+  }
+  
+  const intervals: IntervalResult[] = [];
+  const recoveryScores: RecoveryResult[] = [];
+  
+  // Analyze each interval
+  windows.forEach((window, i) => {
+    const { start: intervalStart, activeEnd, recoveryEnd } = window;
+    // Each window takes the name and targets of the plan step it overlaps. A plan step without
+    // a target, or a window matching no step, is not scored; the default targets only cover the uniform schedule
+    const planned = params.plan ? matchPlannedInterval(layout.windows, window) : null;
+    const name = planned?.name ?? `Interval ${i + 1}`;
+    const targetZone = params.plan ? planned?.targetZone ?? null : params.targets.active;
+    const recoveryTargetZone = params.plan ? planned?.recoveryTargetZone ?? null : params.targets.recovery;
+    const activeData = data.filter(d => d.time >= intervalStart && d.time <= activeEnd);
+    const recoveryData = data.filter(d => d.time > activeEnd && d.time <= recoveryEnd);
+    
+    if (activeData.length > 0) {
+      const maxActive = Math.max(...activeData.map(d => d.heartRate));
+      const minRecovery = recoveryData.length > 0 ? Math.min(...recoveryData.map(d => d.heartRate)) : null;
+      const recoveryScore = minRecovery !== null ? maxActive - minRecovery : null;
+      
+      const recovery = measureRecovery(data, activeEnd, recoveryEnd);
+      const channels = activeChannelAverages(data, window);
+      const compliance = intervalCompliance(
+        segmentCompliance(data, intervalStart, activeEnd, targetZone, zones, 'active', params.maxGap),
+        segmentCompliance(data, activeEnd, recoveryEnd, recoveryTargetZone, zones, 'recovery', params.maxGap)
+      );
+      
+      recoveryScores.push({
+        interval: i + 1,
+        name,
+        targetZone,
+        maxActive,
+        minRecovery,
+        recoveryScore,
+        ...recovery,
+        ...channels,
+        compliance
+      });
+      
+      intervals.push({
+        interval: i + 1,
+        name,
+        targetZone,
+        start: intervalStart,
+        activeEnd,
+        recoveryEnd,
+        maxActive,
+        minRecovery,
+        recoveryScore,
+        ...channels,
+        compliance,
+        drift: window.drift
+      });
+    }
+  });
+  
+  // How much of the targeted phase time was spent in the target zones
+  const compliance = sessionCompliance(recoveryScores.map(score => score.compliance));
+
+  // Calculate cumulative recovery score
+  const cumulativeRecoveryScore = recoveryScores.reduce((sum, score) => sum + (score.recoveryScore ?? 0), 0);
+  
+  // Calculate zone distribution from the time between samples, not the sample count
+  const zoneTime = timeInZones(data, zones, params.maxGap);
+  
+  // Calculate average heart rate and perceived intensity, leaving out paused periods
+  const moving = data.filter(d => !isPaused(d.time, markers.pauses));
+  const hrSamples = moving.length > 0 ? moving : data;
+  const avgHR = Math.round(hrSamples.reduce((sum, d) => sum + d.heartRate, 0) / hrSamples.length);
+  const perceivedIntensity = Math.round((avgHR / params.maxHR) * 100);
+  
+  // Calculate calories
+  const pausedTime = pausedSeconds(markers.pauses);
+  const durationMinutes = Math.max(0, totalDuration - pausedTime) / 60;
+  const calories = calculateCalories(avgHR, durationMinutes, params);
+  
+  // Session load comparable across workouts of different lengths
+  const load = calculateTrainingLoad(data, params);
+
+  // Beat-to-beat variability in the phases where the body is meant to recover
+  const hrv = analyzeHrv(rrIntervals, sessionPhases({ warmupEnd, cooldownStart, intervals }, totalDuration));
+  
+  return {
+    zones,
+    intervals,
+    recoveryScores,
+    cumulativeRecoveryScore,
+    compliance,
+    zoneDistribution: zoneTime.seconds,
+    zoneTotalSeconds: zoneTime.totalSeconds,
+    highIntensityShare: highIntensityPercentage(zoneTime, zones, params.maxHR),
+    avgHR,
+    perceivedIntensity,
+    calories,
+    load,
+    channels: availableChannels(data),
+    decoupling: powerDecoupling(data, intervals),
+    hrv,
+    totalDuration: Math.round(durationMinutes),
+    pausedTime,
+    warmupEnd,
+    cooldownStart
+  };
+};
+
+// Chart x positions, fine enough to place boundaries to the second
+export const toMinutes = (seconds: number) => Math.round(seconds / 60 * 1000) / 1000;
+
+// Chart points with zone coloring
+export const buildChartData = (data: TrackPointData[], zones: HRZones): ChartPoint[] => {
+  return data.map(point => ({
+    ...point,
+    timeMinutes: toMinutes(point.time),
+    zone: findZone(point.heartRate, zones)
+  }));
+};
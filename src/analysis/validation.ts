@@ -0,0 +1,94 @@
+import type { ActivityLap, TrackPointData, TrainingParams } from '../types';
+import { formatClock } from '../utils/format';
+import { lapWindows } from './laps';
+import { planProblems, plannedLayout } from './plans';
+import { calculateHRZones, customZoneProblems } from './zones';
+
+export type ParamField = keyof TrainingParams;
+
+export interface ParamIssue {
+  field: ParamField;
+  message: string;
+}
+
+/**
+ * Checks the training parameters against the loaded session so problems are
+ * reported next to the inputs instead of silently changing the analysis.
+ */
+export const validateParams = (data: TrackPointData[], params: TrainingParams, laps: ActivityLap[] = []): ParamIssue[] => {
+  const issues: ParamIssue[] = [];
+
+  const { zoneModel } = params;
+  if (params.restingHR >= params.maxHR) {
+    issues.push({ field: 'restingHR', message: 'Must be below Max HR.' });
+  }
+  if (zoneModel.type === 'custom') {
+    const problems = customZoneProblems(zoneModel.customZones);
+    if (problems.length > 0) issues.push({ field: 'zoneModel', message: problems.join(' ') });
+  }
+
+  // Targets are zone keys, so a model with fewer zones can leave them dangling
+  const zones = calculateHRZones(params.maxHR, zoneModel, params.restingHR);
+  const missingTargets = [params.targets.active, params.targets.recovery].filter(zone => zone !== null && !(zone in zones));
+  if (missingTargets.length > 0) {
+    issues.push({ field: 'targets', message: `The zone model has no ${missingTargets.join(' or ')}; those phases are not scored.` });
+  }
+
+  if (params.plan) {
+    const problems = planProblems(params.plan);
+    const unknownZones = params.plan.steps.filter(step => step.targetZone !== null && !(step.targetZone in zones));
+    if (unknownZones.length > 0) problems.push(`${unknownZones.map(step => `"${step.name}"`).join(', ')} target zones the model does not have.`);
+    if (problems.length > 0) issues.push({ field: 'plan', message: problems.join(' ') });
+  }
+
+  const { cleaning } = params;
+  if (cleaning.enabled && [cleaning.outlierThreshold, cleaning.maxRateOfChange, cleaning.flatlineDuration].some(value => value <= 0)) {
+    issues.push({ field: 'cleaning', message: 'Filter thresholds must be positive.' });
+  } else if (cleaning.enabled && cleaning.interpolateGaps && cleaning.maxInterpolatedGap <= params.maxGap) {
+    issues.push({ field: 'cleaning', message: `Only gaps longer than Max Gap (${params.maxGap}s) are interpolated, so the interpolation limit must exceed it.` });
+  }
+
+  // The remaining checks need a loaded session
+  if (data.length === 0) return issues;
+
+  const totalDuration = data[data.length - 1].time;
+  const peakHR = Math.max(...data.map(d => d.heartRate));
+  if (params.maxHR < peakHR) {
+    issues.push({
+      field: 'maxHR',
+      message: `Below the observed peak of ${peakHR} bpm, so zones and intensity are overstated.`
+    });
+  }
+
+  if (params.intervalDetection === 'laps' && lapWindows(laps, totalDuration).length === 0) {
+    issues.push({
+      field: 'intervalDetection',
+      message: laps.length === 0
+        ? 'This file has no lap markers.'
+        : `The ${laps.length} lap markers in this file do not form work/recovery pairs.`
+    });
+  }
+
+  const layout = plannedLayout(params, totalDuration);
+  const { warmupEnd, cooldownStart } = layout;
+  if (warmupEnd >= cooldownStart) {
+    issues.push({
+      field: params.plan ? 'plan' : 'warmupTime',
+      message: `Warmup and cooldown cover the whole ${formatClock(totalDuration)} session.`
+    });
+    return issues;
+  }
+
+  if (params.intervalDetection === 'schedule') {
+    const planned = layout.windows.length;
+    const fitting = layout.windows.filter(window => window.recoveryEnd <= cooldownStart).length;
+    if (fitting < planned) {
+      issues.push({
+        field: params.plan ? 'plan' : 'intervals',
+        message: `Only ${fitting} of ${planned} fit between warmup end (${formatClock(warmupEnd)}) and cooldown start (${formatClock(cooldownStart)}); the rest are not analyzed.`
+      });
+    }
+  }
+
+  return issues;
+};
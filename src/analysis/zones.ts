@@ -0,0 +1,146 @@
+import type { HRZone, TrackPointData, ZoneModel } from '../types';
+
+// Keyed zone1..zoneN, in ascending order
+export type HRZones = Record<string, HRZone>;
+
+export const DEFAULT_MAX_GAP = 10; // seconds
+
+// Zones starting at or above this share of max HR count as high intensity
+export const HIGH_INTENSITY_FRACTION = 0.8;
+
+interface ZoneBand {
+  name: string;
+  from: number;
+  to: number;
+  color: string;
+}
+
+const FIVE_ZONE_BANDS: ZoneBand[] = [
+  { name: 'Recovery', from: 0.5, to: 0.6, color: '#10B981' },
+  { name: 'Aerobic', from: 0.6, to: 0.7, color: '#3B82F6' },
+  { name: 'Aerobic Threshold', from: 0.7, to: 0.8, color: '#F59E0B' },
+  { name: 'Lactate Threshold', from: 0.8, to: 0.9, color: '#EF4444' },
+  { name: 'VO2 Max', from: 0.9, to: 1.0, color: '#8B5CF6' }
+];
+
+// Joe Friel's seven LTHR-based zones; the top band has no fixed upper bound
+const FRIEL_LTHR_BANDS: ZoneBand[] = [
+  { name: 'Z1 Recovery', from: 0.5, to: 0.85, color: '#10B981' },
+  { name: 'Z2 Aerobic', from: 0.85, to: 0.9, color: '#3B82F6' },
+  { name: 'Z3 Tempo', from: 0.9, to: 0.95, color: '#06B6D4' },
+  { name: 'Z4 Sub-Threshold', from: 0.95, to: 1.0, color: '#F59E0B' },
+  { name: 'Z5a Super-Threshold', from: 1.0, to: 1.03, color: '#F97316' },
+  { name: 'Z5b Aerobic Capacity', from: 1.03, to: 1.07, color: '#EF4444' },
+  { name: 'Z5c Anaerobic Capacity', from: 1.07, to: 1.15, color: '#8B5CF6' }
+];
+
+export const ZONE_MODEL_LABELS: Record<ZoneModel['type'], string> = {
+  percentMax: '% of Max HR (5 zones)',
+  karvonen: 'Heart Rate Reserve / Karvonen (5 zones)',
+  lthr: 'Friel LTHR (7 zones)',
+  custom: 'Custom bands'
+};
+
+const toZones = (zones: HRZone[]): HRZones =>
+  Object.fromEntries(zones.map((zone, index) => [`zone${index + 1}`, zone]));
+
+const scaleBands = (bands: ZoneBand[], base: number, span: number) =>
+  bands.map(band => ({
+    name: band.name,
+    min: Math.round(base + span * band.from),
+    max: Math.round(base + span * band.to),
+    color: band.color
+  }));
+
+export const percentMaxZones = (maxHR: number) => scaleBands(FIVE_ZONE_BANDS, 0, maxHR);
+
+export const DEFAULT_ZONE_MODEL: ZoneModel = {
+  type: 'percentMax',
+  lthr: 160,
+  customZones: percentMaxZones(175)
+};
+
+export const calculateHRZones = (maxHR: number, model: ZoneModel = DEFAULT_ZONE_MODEL, restingHR: number = 60): HRZones => {
+  switch (model.type) {
+    case 'karvonen':
+      return toZones(scaleBands(FIVE_ZONE_BANDS, restingHR, maxHR - restingHR));
+    case 'lthr':
+      return toZones(scaleBands(FRIEL_LTHR_BANDS, 0, model.lthr));
+    case 'custom':
+      return toZones([...model.customZones].sort((a, b) => a.min - b.min));
+    default:
+      return toZones(percentMaxZones(maxHR));
+  }
+};
+
+// Overlapping or empty custom bands would make time in zone ambiguous
+export const customZoneProblems = (zones: HRZone[]) => {
+  const problems: string[] = [];
+  const sorted = [...zones].sort((a, b) => a.min - b.min);
+  sorted.forEach((zone, index) => {
+    if (zone.max <= zone.min) problems.push(`"${zone.name}" has an upper bound at or below its lower bound.`);
+    const next = sorted[index + 1];
+    if (next && zone.max > next.min) problems.push(`"${zone.name}" overlaps "${next.name}".`);
+  });
+  if (zones.length === 0) problems.push('At least one zone is required.');
+  return problems;
+};
+
+/**
+ * Zones are half-open [min, max) so a boundary value belongs to the higher zone
+ * only. The top zone is open-ended; HR below the first zone has no zone.
+ */
+export const findZone = (heartRate: number, zones: HRZones): string | null => {
+  const entries = Object.entries(zones);
+  const match = entries.find(([, zone], index) =>
+    heartRate >= zone.min && (index === entries.length - 1 || heartRate < zone.max)
+  );
+  return match ? match[0] : null;
+};
+
+export interface ZoneTime {
+  // Seconds spent in each zone
+  seconds: Record<string, number>;
+  // Seconds below the lowest zone
+  belowZones: number;
+  // All counted seconds, the denominator for zone percentages
+  totalSeconds: number;
+}
+
+/**
+ * Attributes the time until the next sample to each sample's zone. Gaps longer
+ * than maxGap (pauses, dropouts) only count for maxGap seconds.
+ */
+export const timeInZones = (data: TrackPointData[], zones: HRZones, maxGap: number = DEFAULT_MAX_GAP): ZoneTime => {
+  const seconds = Object.keys(zones).reduce<Record<string, number>>((acc, zone) => {
+    acc[zone] = 0;
+    return acc;
+  }, {});
+  let belowZones = 0;
+  let totalSeconds = 0;
+
+  for (let i = 0; i < data.length - 1; i++) {
+    const dt = Math.min(data[i + 1].time - data[i].time, maxGap);
+    if (dt <= 0) continue;
+    const zone = findZone(data[i].heartRate, zones);
+    if (zone) {
+      seconds[zone] += dt;
+    } else {
+      belowZones += dt;
+    }
+    totalSeconds += dt;
+  }
+
+  return { seconds, belowZones, totalSeconds };
+};
+
+export const zonePercentage = (seconds: number, zoneTime: Pick<ZoneTime, 'totalSeconds'>) =>
+  zoneTime.totalSeconds > 0 ? Math.round((seconds / zoneTime.totalSeconds) * 100) : 0;
+
+// Share (percent) of zone time spent in zones at or above HIGH_INTENSITY_FRACTION of max HR
+export const highIntensityPercentage = (zoneTime: ZoneTime, zones: HRZones, maxHR: number) => {
+  const highSeconds = Object.entries(zones)
+    .filter(([, zone]) => zone.min >= Math.round(maxHR * HIGH_INTENSITY_FRACTION))
+    .reduce((sum, [key]) => sum + (zoneTime.seconds[key] || 0), 0);
+  return zonePercentage(highSeconds, zoneTime);
+};
@@ -0,0 +1,210 @@
+import { useState } from 'react';
+import { Plus, Trash2, User } from 'lucide-react';
+import type { AthleteProfile, Sex } from '../types';
+import { ageOn, weightOn } from '../storage/athletes';
+
+interface AthletePanelProps {
+  athletes: AthleteProfile[];
+  activeAthleteId: number | null;
+  onSelect: (id: number | null) => void;
+  onSave: (athlete: AthleteProfile) => void;
+  onDelete: (id: number) => void;
+}
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+const toDateInput = (date: Date) => date.toISOString().split('T')[0];
+
+const newAthlete = (): AthleteProfile => ({
+  name: '',
+  birthYear: new Date().getFullYear() - 35,
+  sex: 'male',
+  restingHR: 60,
+  maxHR: null,
+  weights: [{ date: new Date(), weight: 75 }]
+});
+
+const AthletePanel = ({ athletes, activeAthleteId, onSelect, onSave, onDelete }: AthletePanelProps) => {
+  const [draft, setDraft] = useState<AthleteProfile | null>(null);
+  const [newWeight, setNewWeight] = useState({ date: toDateInput(new Date()), weight: '' });
+
+  const active = athletes.find(athlete => athlete.id === activeAthleteId) ?? null;
+
+  const addWeight = () => {
+    const weight = parseFloat(newWeight.weight);
+    if (!draft || isNaN(weight) || weight <= 0) return;
+    setDraft({ ...draft, weights: [...draft.weights, { date: new Date(newWeight.date), weight }] });
+    setNewWeight({ ...newWeight, weight: '' });
+  };
+
+  const saveDraft = () => {
+    if (!draft || !draft.name.trim()) return;
+    onSave({ ...draft, name: draft.name.trim() });
+    setDraft(null);
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
+      <h2 className="text-xl font-semibold text-gray-800 mb-4 flex items-center gap-2">
+        <User className="text-blue-600" size={22} />
+        Athlete
+      </h2>
+      <div className="flex flex-wrap items-center gap-3">
+        <select
+          value={activeAthleteId ?? ''}
+          onChange={(e) => onSelect(e.target.value ? parseInt(e.target.value) : null)}
+          className="px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          aria-label="Active athlete"
+        >
+          <option value="">No profile (enter values manually)</option>
+          {athletes.map(athlete => (
+            <option key={athlete.id} value={athlete.id}>{athlete.name}</option>
+          ))}
+        </select>
+        <button
+          onClick={() => setDraft(newAthlete())}
+          className="flex items-center gap-1 px-3 py-2 text-sm bg-gray-100 text-gray-800 rounded-md hover:bg-gray-200 transition-colors"
+        >
+          <Plus size={16} />
+          New Profile
+        </button>
+        {active && (
+          <>
+            <button
+              onClick={() => setDraft(active)}
+              className="px-3 py-2 text-sm bg-gray-100 text-gray-800 rounded-md hover:bg-gray-200 transition-colors"
+            >
+              Edit
+            </button>
+            <button
+              onClick={() => active.id !== undefined && onDelete(active.id)}
+              className="p-2 text-gray-500 hover:text-red-600"
+              aria-label={`Delete profile ${active.name}`}
+            >
+              <Trash2 size={16} />
+            </button>
+            <p className="text-sm text-gray-600">
+              {ageOn(active, new Date())} years, {active.sex}, resting {active.restingHR} bpm,
+              max {active.maxHR !== null ? `${active.maxHR} bpm (measured)` : `${220 - ageOn(active, new Date())} bpm (estimated)`},
+              {' '}{weightOn(active, new Date()) ?? '–'} kg
+            </p>
+          </>
+        )}
+      </div>
+
+      {draft && (
+        <div className="mt-4 p-4 bg-gray-50 rounded-lg">
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+              <input
+                type="text"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Birth Year</label>
+              <input
+                type="number"
+                value={draft.birthYear}
+                onChange={(e) => setDraft({ ...draft, birthYear: parseInt(e.target.value) || draft.birthYear })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Sex</label>
+              <select
+                value={draft.sex}
+                onChange={(e) => setDraft({ ...draft, sex: e.target.value as Sex })}
+                className={inputClass}
+              >
+                <option value="male">Male</option>
+                <option value="female">Female</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Resting HR</label>
+              <input
+                type="number"
+                value={draft.restingHR}
+                onChange={(e) => setDraft({ ...draft, restingHR: parseInt(e.target.value) || 60 })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Measured Max HR</label>
+              <input
+                type="number"
+                value={draft.maxHR ?? ''}
+                placeholder="220 - age"
+                onChange={(e) => setDraft({ ...draft, maxHR: parseInt(e.target.value) || null })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <h3 className="text-sm font-medium text-gray-700 mt-4 mb-2">Weight History</h3>
+          <div className="space-y-1">
+            {[...draft.weights]
+              .sort((a, b) => a.date.getTime() - b.date.getTime())
+              .map(entry => (
+                <div key={entry.date.getTime()} className="flex items-center gap-3 text-sm text-gray-700">
+                  <span className="w-28">{entry.date.toLocaleDateString()}</span>
+                  <span className="w-16">{entry.weight} kg</span>
+                  <button
+                    onClick={() => setDraft({ ...draft, weights: draft.weights.filter(w => w !== entry) })}
+                    className="p-1 text-gray-500 hover:text-red-600"
+                    aria-label={`Remove weight entry from ${entry.date.toLocaleDateString()}`}
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              ))}
+          </div>
+          <div className="flex flex-wrap items-center gap-2 mt-2">
+            <input
+              type="date"
+              value={newWeight.date}
+              onChange={(e) => setNewWeight({ ...newWeight, date: e.target.value })}
+              className="px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <input
+              type="number"
+              value={newWeight.weight}
+              placeholder="kg"
+              onChange={(e) => setNewWeight({ ...newWeight, weight: e.target.value })}
+              className="w-24 px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <button
+              onClick={addWeight}
+              className="flex items-center gap-1 px-3 py-2 text-sm bg-gray-100 text-gray-800 rounded-md hover:bg-gray-200 transition-colors"
+            >
+              <Plus size={16} />
+              Add Weight
+            </button>
+          </div>
+
+          <div className="flex gap-2 mt-4">
+            <button
+              onClick={saveDraft}
+              disabled={!draft.name.trim()}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              Save Profile
+            </button>
+            <button
+              onClick={() => setDraft(null)}
+              className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AthletePanel;
@@ -0,0 +1,90 @@
+import { CheckCircle, Clock, Loader, XCircle } from 'lucide-react';
+import type { StoredSession } from '../storage/history';
+
+export type BatchStatus = 'queued' | 'parsing' | 'done' | 'failed';
+
+export interface BatchItem {
+  key: string;
+  fileName: string;
+  status: BatchStatus;
+  error?: string;
+  session?: StoredSession;
+}
+
+interface BatchTableProps {
+  items: BatchItem[];
+  currentSessionId: number | null;
+  onPick: (session: StoredSession) => void;
+}
+
+const StatusBadge = ({ item }: { item: BatchItem }) => {
+  switch (item.status) {
+    case 'queued':
+      return <span className="flex items-center gap-1 text-gray-500"><Clock size={14} /> Queued</span>;
+    case 'parsing':
+      return <span className="flex items-center gap-1 text-blue-600"><Loader size={14} className="animate-spin" /> Parsing</span>;
+    case 'done':
+      return <span className="flex items-center gap-1 text-green-600"><CheckCircle size={14} /> Done</span>;
+    case 'failed':
+      return <span className="flex items-center gap-1 text-red-600"><XCircle size={14} /> Failed</span>;
+  }
+};
+
+const BatchTable = ({ items, currentSessionId, onPick }: BatchTableProps) => {
+  const finished = items.filter(item => item.status === 'done' || item.status === 'failed').length;
+
+  return (
+    <div className="mt-6 text-left">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-lg font-medium text-gray-800">Batch Import</h3>
+        <p className="text-sm text-gray-600">{finished} of {items.length} processed</p>
+      </div>
+      <div className="w-full h-2 bg-gray-200 rounded-full mb-4">
+        <div
+          className="h-2 bg-blue-600 rounded-full transition-all"
+          style={{ width: `${items.length > 0 ? (finished / items.length) * 100 : 0}%` }}
+        ></div>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">File</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Duration</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Avg HR</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Recovery Score</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {items.map(item => {
+              const session = item.session;
+              const selected = session !== undefined && session.id !== undefined && session.id === currentSessionId;
+              return (
+                <tr
+                  key={item.key}
+                  onClick={() => session && onPick(session)}
+                  className={`${session ? 'cursor-pointer hover:bg-blue-50' : ''} ${selected ? 'bg-blue-50' : ''}`}
+                >
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">{item.fileName}</td>
+                  <td className="px-4 py-3 text-sm">
+                    <StatusBadge item={item} />
+                    {item.error && <p className="text-xs text-red-600 mt-1">{item.error}</p>}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">{session?.recordedAt.toLocaleString() ?? ''}</td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">{session ? `${session.analysis.totalDuration} min` : ''}</td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">{session ? `${session.analysis.avgHR} bpm` : ''}</td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm font-semibold text-gray-900">{session?.analysis.cumulativeRecoveryScore ?? ''}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-xs text-gray-500 mt-2">Click a processed session to analyze it.</p>
+    </div>
+  );
+};
+
+export default BatchTable;
@@ -0,0 +1,99 @@
+import type { CleaningOptions } from '../types';
+import { removedPoints } from '../analysis/cleaning';
+import type { CleaningReport } from '../analysis/cleaning';
+import { formatClock } from '../utils/format';
+
+interface CleaningPanelProps {
+  options: CleaningOptions;
+  onChange: (options: CleaningOptions) => void;
+  report: CleaningReport | null;
+  error?: string;
+}
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+const CleaningPanel = ({ options, onChange, report, error }: CleaningPanelProps) => {
+  const update = (changes: Partial<CleaningOptions>) => onChange({ ...options, ...changes });
+  const longestGap = report && report.gaps.length > 0 ? Math.max(...report.gaps.map(gap => gap.end - gap.start)) : 0;
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-200">
+      <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+        <input
+          type="checkbox"
+          checked={options.enabled}
+          onChange={(e) => update({ enabled: e.target.checked })}
+        />
+        Filter heart rate artifacts
+      </label>
+
+      {options.enabled && (
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mt-3">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Outlier Limit (bpm)</label>
+            <input
+              type="number"
+              value={options.outlierThreshold}
+              onChange={(e) => update({ outlierThreshold: parseInt(e.target.value) || 0 })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Max Change (bpm/s)</label>
+            <input
+              type="number"
+              value={options.maxRateOfChange}
+              onChange={(e) => update({ maxRateOfChange: parseFloat(e.target.value) || 0 })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Flat Line (seconds)</label>
+            <input
+              type="number"
+              value={options.flatlineDuration}
+              onChange={(e) => update({ flatlineDuration: parseInt(e.target.value) || 0 })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="flex items-center gap-2 text-sm font-medium text-gray-700 mb-1">
+              <input
+                type="checkbox"
+                checked={options.interpolateGaps}
+                onChange={(e) => update({ interpolateGaps: e.target.checked })}
+              />
+              Interpolate Gaps Up To
+            </label>
+            <input
+              type="number"
+              value={options.maxInterpolatedGap}
+              disabled={!options.interpolateGaps}
+              onChange={(e) => update({ maxInterpolatedGap: parseInt(e.target.value) || 0 })}
+              className={`${inputClass} disabled:bg-gray-100`}
+            />
+          </div>
+        </div>
+      )}
+
+      {report && options.enabled && (
+        <div className="mt-3 p-3 bg-gray-50 rounded-lg text-sm text-gray-700">
+          <p>
+            Removed {removedPoints(report)} of {report.inputPoints} samples: {report.outliers} outliers,{' '}
+            {report.rateLimited} impossible jumps, {report.flatlined} flat-lined.
+          </p>
+          <p>
+            {report.gaps.length === 0
+              ? 'No gaps longer than the Max Gap.'
+              : `${report.gaps.length} gap${report.gaps.length === 1 ? '' : 's'} (longest ${longestGap}s, first at ${formatClock(report.gaps[0].start)})`}
+            {report.interpolated > 0 && `, ${report.interpolated} samples interpolated`}
+          </p>
+        </div>
+      )}
+
+      {error && <p className="mt-2 text-xs text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+export default CleaningPanel;
@@ -0,0 +1,260 @@
+import { Fragment } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { X } from 'lucide-react';
+import type { TrackPointData } from '../types';
+import type { TrainingLoad } from '../analysis/load';
+import type { HRZones } from '../analysis/zones';
+import { zonePercentage } from '../analysis/zones';
+import type { StoredSession } from '../storage/history';
+import { formatClock } from '../utils/format';
+
+// The parts of an analyzeHIIT result that are compared
+interface ComparedAnalysis {
+  avgHR: number;
+  calories: number;
+  totalDuration: number;
+  cumulativeRecoveryScore: number;
+  highIntensityShare: number;
+  load: TrainingLoad;
+  warmupEnd: number;
+  zones: HRZones;
+  zoneDistribution: Record<string, number>;
+  zoneTotalSeconds: number;
+  recoveryScores: { interval: number; maxActive: number; minRecovery: number | null; recoveryScore: number | null }[];
+}
+
+export interface ComparedSession {
+  session: StoredSession;
+  data: TrackPointData[];
+  analysis: ComparedAnalysis;
+}
+
+interface CompareViewProps {
+  entries: ComparedSession[];
+  onClose: () => void;
+}
+
+const SESSION_COLORS = ['#2563EB', '#DC2626', '#059669', '#D97706', '#7C3AED', '#DB2777'];
+
+const SUMMARY_METRICS: { label: string; unit: string; decimals: number; value: (analysis: ComparedAnalysis) => number }[] = [
+  { label: 'Average HR', unit: 'bpm', decimals: 0, value: analysis => analysis.avgHR },
+  { label: 'Duration', unit: 'min', decimals: 0, value: analysis => analysis.totalDuration },
+  { label: 'Calories', unit: 'kcal', decimals: 0, value: analysis => analysis.calories },
+  { label: 'Cumulative Recovery Score', unit: '', decimals: 0, value: analysis => analysis.cumulativeRecoveryScore },
+  { label: 'High-Intensity Share', unit: '%', decimals: 0, value: analysis => analysis.highIntensityShare },
+  { label: 'Banister TRIMP', unit: '', decimals: 0, value: analysis => analysis.load.banisterTrimp },
+  { label: 'Training Effect', unit: '', decimals: 1, value: analysis => analysis.load.trainingEffect }
+];
+
+const formatDelta = (delta: number, decimals: number = 0) => {
+  const rounded = Number(delta.toFixed(decimals));
+  if (rounded === 0) return '±0';
+  return `${rounded > 0 ? '+' : '−'}${Math.abs(rounded).toFixed(decimals)}`;
+};
+
+const Delta = ({ value, decimals, unit = '' }: { value: number; decimals?: number; unit?: string }) => (
+  <span className={`ml-1 text-xs ${value > 0 ? 'text-green-600' : value < 0 ? 'text-red-600' : 'text-gray-400'}`}>
+    ({formatDelta(value, decimals)}{unit})
+  </span>
+);
+
+const sessionLabel = (session: StoredSession) =>
+  session.recordedAt.toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+
+const headerClass = 'px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider';
+const cellClass = 'px-4 py-3 whitespace-nowrap text-sm text-gray-900';
+
+/**
+ * Overlays several saved sessions aligned at the end of their warmup and
+ * compares them against the first (oldest) one.
+ */
+const CompareView = ({ entries, onClose }: CompareViewProps) => {
+  const [baseline] = entries;
+  const intervalCount = Math.max(...entries.map(entry => entry.analysis.recoveryScores.length));
+  const zoneKeys = Object.keys(baseline.analysis.zones);
+
+  const series = entries.map(entry => entry.data.map(point => ({
+    offset: Math.round((point.time - entry.analysis.warmupEnd) / 60 * 100) / 100,
+    heartRate: point.heartRate
+  })));
+
+  const zoneShare = (entry: ComparedSession, key: string) =>
+    zonePercentage(entry.analysis.zoneDistribution[key] || 0, { totalSeconds: entry.analysis.zoneTotalSeconds });
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold text-gray-800">Session Comparison</h2>
+        <button
+          onClick={onClose}
+          className="p-2 text-gray-500 hover:text-gray-800"
+          aria-label="Close comparison"
+        >
+          <X size={20} />
+        </button>
+      </div>
+
+      {/* Heart rate overlay */}
+      <div style={{ width: '100%', height: 360 }}>
+        <ResponsiveContainer>
+          <LineChart margin={{ top: 10, right: 30, left: 20, bottom: 30 }}>
+            <CartesianGrid strokeDasharray="2 2" stroke="#e5e7eb" opacity={0.5} />
+            <XAxis
+              type="number"
+              dataKey="offset"
+              domain={['dataMin', 'dataMax']}
+              tick={{ fill: '#6b7280', fontSize: 12 }}
+              label={{ value: 'Minutes from warmup end', position: 'insideBottom', offset: -15, style: { fill: '#374151', fontSize: '14px' } }}
+            />
+            <YAxis
+              domain={['auto', 'auto']}
+              tick={{ fill: '#6b7280', fontSize: 12 }}
+              label={{ value: 'Heart Rate (bpm)', angle: -90, position: 'insideLeft', style: { textAnchor: 'middle', fill: '#374151', fontSize: '14px' } }}
+            />
+            <Tooltip
+              formatter={(value, name) => [`${value} bpm`, name]}
+              labelFormatter={(value) => `${value} min`}
+            />
+            <Legend verticalAlign="top" />
+            <ReferenceLine x={0} stroke="#059669" strokeDasharray="6 3" />
+            {entries.map((entry, index) => (
+              <Line
+                key={entry.session.id}
+                data={series[index]}
+                dataKey="heartRate"
+                name={sessionLabel(entry.session)}
+                stroke={SESSION_COLORS[index % SESSION_COLORS.length]}
+                strokeWidth={2}
+                dot={false}
+                type="monotone"
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      {/* Summary metrics */}
+      <h3 className="text-lg font-medium text-gray-800 mt-6 mb-2">Summary</h3>
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className={headerClass}>Metric</th>
+              {entries.map((entry, index) => (
+                <th key={entry.session.id} className={headerClass} style={{ color: SESSION_COLORS[index % SESSION_COLORS.length] }}>
+                  {sessionLabel(entry.session)}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {SUMMARY_METRICS.map(metric => (
+              <tr key={metric.label}>
+                <td className={`${cellClass} font-medium`}>{metric.label}</td>
+                {entries.map((entry, index) => {
+                  const value = metric.value(entry.analysis);
+                  return (
+                    <td key={entry.session.id} className={cellClass}>
+                      {value.toFixed(metric.decimals)} {metric.unit}
+                      {index > 0 && <Delta value={value - metric.value(baseline.analysis)} decimals={metric.decimals} />}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Zone distribution */}
+      <h3 className="text-lg font-medium text-gray-800 mt-6 mb-2">Zone Distribution</h3>
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className={headerClass}>Zone</th>
+              {entries.map(entry => (
+                <th key={entry.session.id} className={headerClass}>{sessionLabel(entry.session)}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {zoneKeys.map(key => (
+              <tr key={key}>
+                <td className={`${cellClass} font-medium`}>
+                  <span className="inline-block w-3 h-3 rounded-full mr-2" style={{ backgroundColor: baseline.analysis.zones[key].color }}></span>
+                  {baseline.analysis.zones[key].name}
+                </td>
+                {entries.map((entry, index) => (
+                  <td key={entry.session.id} className={cellClass}>
+                    {formatClock(entry.analysis.zoneDistribution[key] || 0)} ({zoneShare(entry, key)}%)
+                    {index > 0 && <Delta value={zoneShare(entry, key) - zoneShare(baseline, key)} unit=" pp" />}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Per-interval comparison */}
+      <h3 className="text-lg font-medium text-gray-800 mt-6 mb-2">Intervals</h3>
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className={headerClass} rowSpan={2}>Interval</th>
+              {entries.map(entry => (
+                <th key={entry.session.id} className={`${headerClass} text-center border-l border-gray-200`} colSpan={3}>
+                  {sessionLabel(entry.session)}
+                </th>
+              ))}
+            </tr>
+            <tr>
+              {entries.map(entry => (
+                <Fragment key={entry.session.id}>
+                  <th className={`${headerClass} border-l border-gray-200`}>Max</th>
+                  <th className={headerClass}>Min</th>
+                  <th className={headerClass}>Score</th>
+                </Fragment>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {Array.from({ length: intervalCount }, (_, i) => (
+              <tr key={i}>
+                <td className={`${cellClass} font-medium`}>{i + 1}</td>
+                {entries.map((entry, index) => {
+                  const score = entry.analysis.recoveryScores[i];
+                  const base = baseline.analysis.recoveryScores[i];
+                  if (!score) {
+                    return <td key={entry.session.id} className={`${cellClass} border-l border-gray-200 text-gray-400`} colSpan={3}>–</td>;
+                  }
+                  return (
+                    <Fragment key={entry.session.id}>
+                      <td className={`${cellClass} border-l border-gray-200`}>
+                        {score.maxActive}
+                        {index > 0 && base && <Delta value={score.maxActive - base.maxActive} />}
+                      </td>
+                      <td className={cellClass}>
+                        {score.minRecovery ?? '–'}
+                        {index > 0 && score.minRecovery !== null && base && base.minRecovery !== null && <Delta value={score.minRecovery - base.minRecovery} />}
+                      </td>
+                      <td className={`${cellClass} font-semibold`}>
+                        {score.recoveryScore ?? '–'}
+                        {index > 0 && score.recoveryScore !== null && base && base.recoveryScore !== null && <Delta value={score.recoveryScore - base.recoveryScore} />}
+                      </td>
+                    </Fragment>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-xs text-gray-500 mt-2">Deltas are relative to the first session. Heart rates in bpm.</p>
+    </div>
+  );
+};
+
+export default CompareView;
@@ -0,0 +1,49 @@
+import { useState } from 'react';
+import { ChevronDown, Download } from 'lucide-react';
+
+export interface ExportOption {
+  label: string;
+  description: string;
+  onSelect: () => void;
+}
+
+interface ExportMenuProps {
+  options: ExportOption[];
+}
+
+const ExportMenu = ({ options }: ExportMenuProps) => {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
+        aria-expanded={open}
+      >
+        <Download size={20} />
+        Export
+        <ChevronDown size={16} />
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-2 w-72 bg-white rounded-lg shadow-lg border border-gray-200 py-1 z-10">
+          {options.map(option => (
+            <button
+              key={option.label}
+              onClick={() => {
+                setOpen(false);
+                option.onSelect();
+              }}
+              className="block w-full px-4 py-2 text-left hover:bg-gray-50"
+            >
+              <span className="block text-sm font-medium text-gray-800">{option.label}</span>
+              <span className="block text-xs text-gray-500">{option.description}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,135 @@
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { Columns2, FolderOpen, Trash2 } from 'lucide-react';
+import { highIntensityShare } from '../storage/history';
+import type { StoredSession } from '../storage/history';
+
+interface HistoryViewProps {
+  sessions: StoredSession[];
+  currentSessionId: number | null;
+  onOpen: (session: StoredSession) => void;
+  onDelete: (id: number) => void;
+  compareIds: number[];
+  onToggleCompare: (id: number) => void;
+  onCompare: () => void;
+}
+
+const TREND_METRICS = [
+  { key: 'avgHR', label: 'Average HR', unit: 'bpm', color: '#EF4444' },
+  { key: 'cumulativeRecoveryScore', label: 'Cumulative Recovery Score', unit: '', color: '#10B981' },
+  { key: 'calories', label: 'Calories', unit: 'kcal', color: '#F59E0B' },
+  { key: 'highIntensityShare', label: 'Zone 4/5 Share', unit: '%', color: '#8B5CF6' }
+] as const;
+
+const formatDate = (date: Date) => date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+const HistoryView = ({ sessions, currentSessionId, onOpen, onDelete, compareIds, onToggleCompare, onCompare }: HistoryViewProps) => {
+  if (sessions.length === 0) {
+    return (
+      <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
+        <h2 className="text-xl font-semibold text-gray-800 mb-2">Workout History</h2>
+        <p className="text-gray-600">Analyzed sessions are saved on this device and will appear here.</p>
+      </div>
+    );
+  }
+
+  const trendData = sessions.map(session => ({
+    date: formatDate(session.recordedAt),
+    avgHR: session.analysis.avgHR,
+    cumulativeRecoveryScore: session.analysis.cumulativeRecoveryScore,
+    calories: session.analysis.calories,
+    highIntensityShare: highIntensityShare(session.analysis)
+  }));
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
+      <h2 className="text-xl font-semibold text-gray-800 mb-4">Workout History</h2>
+
+      {/* Cross-session trends */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+        {TREND_METRICS.map(metric => (
+          <div key={metric.key} className="p-4 bg-gray-50 rounded-lg">
+            <h3 className="text-sm font-medium text-gray-700 mb-2">{metric.label}</h3>
+            <div style={{ width: '100%', height: 180 }}>
+              <ResponsiveContainer>
+                <LineChart data={trendData} margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="2 2" stroke="#e5e7eb" opacity={0.5} />
+                  <XAxis dataKey="date" tick={{ fill: '#6b7280', fontSize: 12 }} />
+                  <YAxis tick={{ fill: '#6b7280', fontSize: 12 }} domain={['auto', 'auto']} />
+                  <Tooltip formatter={(value) => [`${value} ${metric.unit}`.trim(), metric.label]} />
+                  <Line type="monotone" dataKey={metric.key} stroke={metric.color} strokeWidth={2} dot={{ r: 3 }} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* Saved sessions */}
+      <div className="flex items-center justify-between mb-2">
+        <p className="text-sm text-gray-600">Tick two or more sessions to compare them side by side.</p>
+        <button
+          onClick={onCompare}
+          disabled={compareIds.length < 2}
+          className="flex items-center gap-1 px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          <Columns2 size={16} />
+          Compare ({compareIds.length})
+        </button>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-3"></th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">File</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Duration</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Avg HR</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Recovery</th>
+              <th className="px-4 py-3"></th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {[...sessions].reverse().map(session => (
+              <tr key={session.id} className={session.id === currentSessionId ? 'bg-blue-50' : ''}>
+                <td className="px-4 py-3">
+                  <input
+                    type="checkbox"
+                    checked={session.id !== undefined && compareIds.includes(session.id)}
+                    onChange={() => session.id !== undefined && onToggleCompare(session.id)}
+                    aria-label={`Compare session ${session.fileName}`}
+                  />
+                </td>
+                <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">{session.recordedAt.toLocaleString()}</td>
+                <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-600">{session.fileName}</td>
+                <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">{session.analysis.totalDuration} min</td>
+                <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">{session.analysis.avgHR} bpm</td>
+                <td className="px-4 py-3 whitespace-nowrap text-sm font-semibold text-gray-900">{session.analysis.cumulativeRecoveryScore}</td>
+                <td className="px-4 py-3 whitespace-nowrap text-right">
+                  <div className="inline-flex gap-2">
+                    <button
+                      onClick={() => onOpen(session)}
+                      className="flex items-center gap-1 px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+                    >
+                      <FolderOpen size={16} />
+                      Open
+                    </button>
+                    <button
+                      onClick={() => session.id !== undefined && onDelete(session.id)}
+                      className="flex items-center gap-1 px-3 py-1 text-sm bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 transition-colors"
+                      aria-label={`Delete session ${session.fileName}`}
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default HistoryView;
@@ -0,0 +1,164 @@
+import { useMemo } from 'react';
+import { ScatterChart, Scatter, XAxis, YAxis, ZAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine } from 'recharts';
+import type { BeatInterval } from '../types';
+import { poincarePoints } from '../analysis/hrv';
+import type { PhaseHrv, PoincarePoint, SessionHrv } from '../analysis/hrv';
+import { phaseAt } from '../analysis/phases';
+import type { PhaseSegment, PhaseType } from '../analysis/phases';
+import { formatClock } from '../utils/format';
+
+interface HrvPanelProps {
+  hrv: SessionHrv;
+  beats: BeatInterval[];
+  phases: PhaseSegment[];
+}
+
+const PHASE_COLORS: Record<PhaseType, string> = {
+  warmup: '#3B82F6',
+  active: '#EF4444',
+  recovery: '#10B981',
+  rest: '#6B7280',
+  cooldown: '#8B5CF6'
+};
+
+const PHASE_LABELS: Record<PhaseType, string> = {
+  warmup: 'Warmup',
+  active: 'Active',
+  recovery: 'Recovery',
+  rest: 'Rest',
+  cooldown: 'Cooldown'
+};
+
+// Enough to show the shape of the cloud without slowing the chart down
+const MAX_PLOTTED = 3000;
+
+const headerClass = 'px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider';
+const cellClass = 'px-6 py-4 whitespace-nowrap text-sm text-gray-900';
+
+const phaseTitle = (segment: PhaseHrv) =>
+  segment.interval !== null ? `${PHASE_LABELS[segment.type]} ${segment.interval}` : PHASE_LABELS[segment.type];
+
+const HrvPanel = ({ hrv, beats, phases }: HrvPanelProps) => {
+  // One scatter series per phase type, thinned evenly on long recordings
+  const series = useMemo(() => {
+    const points = poincarePoints(beats);
+    const step = Math.ceil(points.length / MAX_PLOTTED);
+    const grouped = new Map<PhaseType, PoincarePoint[]>();
+    points.filter((_, i) => i % step === 0).forEach(point => {
+      const type = phaseAt(phases, point.time)?.type ?? 'rest';
+      grouped.set(type, [...(grouped.get(type) ?? []), point]);
+    });
+    return (Object.keys(PHASE_COLORS) as PhaseType[])
+      .filter(type => grouped.has(type))
+      .map(type => ({ type, points: grouped.get(type) ?? [] }));
+  }, [beats, phases]);
+
+  const range = useMemo(() => {
+    const values = series.flatMap(({ points }) => points.flatMap(point => [point.rr, point.nextRR]));
+    if (values.length === 0) return [300, 1200];
+    return [Math.floor(Math.min(...values) / 50) * 50, Math.ceil(Math.max(...values) / 50) * 50];
+  }, [series]);
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6 mt-6">
+      <h2 className="text-xl font-semibold text-gray-800 mb-1">Heart Rate Variability</h2>
+      <p className="text-sm text-gray-600 mb-4">
+        {hrv.beats} beats recorded, {hrv.artifacts} rejected as ectopic or missed
+        {hrv.poincare && <> · SD1 {hrv.poincare.sd1} ms · SD2 {hrv.poincare.sd2} ms</>}
+      </p>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="overflow-x-auto">
+          {hrv.phases.length > 0 ? (
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className={headerClass}>Phase</th>
+                  <th className={headerClass}>RMSSD</th>
+                  <th className={headerClass}>SDNN</th>
+                  <th className={headerClass}>pNN50</th>
+                  <th className={headerClass}>Mean RR</th>
+                  <th className={headerClass}>Reactivation</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {hrv.phases.map((segment, index) => (
+                  <tr key={`${segment.type}-${segment.start}`} className={index % 2 === 0 ? 'bg-white' : 'bg-gray-50'}>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                      {phaseTitle(segment)}
+                      <span className="block text-xs font-normal text-gray-500">
+                        {formatClock(segment.start)} – {formatClock(segment.end)}
+                      </span>
+                    </td>
+                    <td className={cellClass}>{segment.rmssd} ms</td>
+                    <td className={cellClass}>{segment.sdnn} ms</td>
+                    <td className={cellClass}>{segment.pnn50}%</td>
+                    <td className={cellClass}>{segment.meanRR} ms</td>
+                    <td className={cellClass}>{segment.reactivation !== null ? `${segment.reactivation}%` : '–'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            <p className="text-sm text-gray-500">No warmup, recovery or cooldown has enough clean beats for HRV.</p>
+          )}
+        </div>
+
+        <div style={{ width: '100%', height: 360 }}>
+          <ResponsiveContainer>
+            <ScatterChart margin={{ top: 10, right: 20, left: 10, bottom: 20 }}>
+              <CartesianGrid strokeDasharray="2 2" stroke="#e5e7eb" opacity={0.5} />
+              <XAxis
+                type="number"
+                dataKey="rr"
+                name="RR n"
+                unit=" ms"
+                domain={range}
+                tick={{ fill: '#6b7280', fontSize: 12 }}
+                label={{ value: 'RR n (ms)', position: 'insideBottom', offset: -10, style: { fill: '#374151', fontSize: 12 } }}
+              />
+              <YAxis
+                type="number"
+                dataKey="nextRR"
+                name="RR n+1"
+                unit=" ms"
+                domain={range}
+                tick={{ fill: '#6b7280', fontSize: 12 }}
+                label={{ value: 'RR n+1 (ms)', angle: -90, position: 'insideLeft', style: { fill: '#374151', fontSize: 12 } }}
+              />
+              <ZAxis range={[12, 12]} />
+              <ReferenceLine segment={[{ x: range[0], y: range[0] }, { x: range[1], y: range[1] }]} stroke="#9CA3AF" strokeDasharray="4 4" />
+              <Tooltip cursor={{ strokeDasharray: '3 3' }} />
+              <Legend verticalAlign="top" />
+              {series.map(({ type, points }) => (
+                <Scatter
+                  key={type}
+                  name={PHASE_LABELS[type]}
+                  data={points}
+                  fill={PHASE_COLORS[type]}
+                  fillOpacity={0.5}
+                  isAnimationActive={false}
+                />
+              ))}
+            </ScatterChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      <div className="mt-4 p-4 bg-blue-50 rounded-lg">
+        <h4 className="font-medium text-blue-900 mb-2">HRV Interpretation:</h4>
+        <p className="text-sm text-blue-800">
+          RMSSD and pNN50 follow beat-to-beat (parasympathetic) activity; SDNN also reflects slower swings in heart rate.
+          Reactivation is each recovery's RMSSD as a share of the warmup's - recoveries that climb back toward 100% show the
+          vagal brake returning quickly, while a falling trend across recoveries points to accumulating fatigue.
+        </p>
+        <p className="text-sm text-blue-800 mt-2">
+          The Poincaré plot pairs each beat with the next. A narrow cloud along the dashed line (low SD1) means little
+          beat-to-beat variation, as during hard efforts. Rejected beats are left out of the plot and every figure.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default HrvPanel;
@@ -0,0 +1,112 @@
+import { Merge, Plus, RotateCcw, Scissors, Trash2 } from 'lucide-react';
+import type { IntervalWindow } from '../analysis/intervalDetection';
+import { BOUNDARY_EDGES, appendInterval, mergeWithNext, moveBoundary, removeInterval, splitInterval } from '../analysis/intervalEdits';
+import type { BoundaryEdge } from '../analysis/intervalEdits';
+import { formatClock } from '../utils/format';
+
+interface IntervalEditorProps {
+  windows: IntervalWindow[];
+  totalDuration: number;
+  // Where a first interval goes when every row has been deleted
+  fallback: IntervalWindow;
+  edited: boolean;
+  onChange: (windows: IntervalWindow[]) => void;
+  onReset: () => void;
+}
+
+const EDGE_LABELS: Record<BoundaryEdge, string> = {
+  start: 'Start',
+  activeEnd: 'Active End',
+  recoveryEnd: 'Recovery End'
+};
+
+const headerClass = 'px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider';
+const iconButtonClass = 'p-2 text-gray-500 hover:text-blue-600 disabled:opacity-30';
+
+const IntervalEditor = ({ windows, totalDuration, fallback, edited, onChange, onReset }: IntervalEditorProps) => (
+  <div className="mt-4 p-4 bg-gray-50 rounded-lg">
+    <div className="flex items-center justify-between mb-2">
+      <h3 className="text-lg font-medium text-gray-800">Interval Boundaries</h3>
+      {edited && (
+        <button
+          onClick={onReset}
+          className="flex items-center gap-1 px-3 py-1 text-sm bg-white text-gray-800 rounded-md hover:bg-gray-200 transition-colors"
+        >
+          <RotateCcw size={16} />
+          Reset to Detected
+        </button>
+      )}
+    </div>
+    <p className="text-xs text-gray-500 mb-3">
+      Drag the start (green), active end (red) and recovery end (gray) markers on the chart, or enter times in seconds.
+      Corrections are saved with the session.
+    </p>
+    <div className="overflow-x-auto">
+      <table className="min-w-full divide-y divide-gray-200">
+        <thead>
+          <tr>
+            <th className={headerClass}>Interval</th>
+            {BOUNDARY_EDGES.map(edge => <th key={edge} className={headerClass}>{EDGE_LABELS[edge]}</th>)}
+            <th className={headerClass}></th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-200">
+          {windows.map((window, index) => (
+            <tr key={index}>
+              <td className="px-4 py-2 text-sm font-medium text-gray-900">{index + 1}</td>
+              {BOUNDARY_EDGES.map(edge => (
+                <td key={edge} className="px-4 py-2 whitespace-nowrap text-sm text-gray-600">
+                  {/* Committed on blur, so partly typed values are not clamped while typing */}
+                  <input
+                    key={`${edge}-${window[edge]}`}
+                    type="number"
+                    defaultValue={window[edge]}
+                    onBlur={(e) => {
+                      const time = parseInt(e.target.value);
+                      if (!isNaN(time) && time !== window[edge]) onChange(moveBoundary(windows, index, edge, time, totalDuration));
+                    }}
+                    onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                    className="w-24 mr-2 px-2 py-1 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    aria-label={`${EDGE_LABELS[edge]} of interval ${index + 1} in seconds`}
+                  />
+                  {formatClock(window[edge])}
+                </td>
+              ))}
+              <td className="px-4 py-2 whitespace-nowrap">
+                <button onClick={() => onChange(splitInterval(windows, index))} className={iconButtonClass} aria-label={`Split interval ${index + 1}`} title="Split">
+                  <Scissors size={16} />
+                </button>
+                <button
+                  onClick={() => onChange(mergeWithNext(windows, index))}
+                  disabled={index === windows.length - 1}
+                  className={iconButtonClass}
+                  aria-label={`Merge interval ${index + 1} with the next one`}
+                  title="Merge with next"
+                >
+                  <Merge size={16} />
+                </button>
+                <button
+                  onClick={() => onChange(removeInterval(windows, index))}
+                  className="p-2 text-gray-500 hover:text-red-600"
+                  aria-label={`Delete interval ${index + 1}`}
+                  title="Delete"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+    <button
+      onClick={() => onChange(appendInterval(windows, totalDuration, fallback))}
+      className="mt-2 flex items-center gap-1 px-3 py-1 text-sm bg-white text-gray-800 rounded-md hover:bg-gray-200 transition-colors"
+    >
+      <Plus size={16} />
+      Add Interval
+    </button>
+  </div>
+);
+
+export default IntervalEditor;
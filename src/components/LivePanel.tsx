@@ -0,0 +1,340 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, ResponsiveContainer, ReferenceArea, ReferenceLine } from 'recharts';
+import { Bluetooth, Play, Square, Trash2, X } from 'lucide-react';
+import type { BeatInterval, ParsedActivity, TrackPointData, TrainingParams } from '../types';
+import { NO_MARKERS } from '../analysis/laps';
+import { PHASE_SHADES } from '../analysis/phases';
+import { analyzeHIIT } from '../analysis/session';
+import type { SessionAnalysis } from '../analysis/session';
+import { calculateHRZones, findZone } from '../analysis/zones';
+import { countdownCue, finishCue, phaseCue, unlockCues } from '../live/cues';
+import { bluetoothAvailable, requestBluetoothMonitor } from '../live/heartRateMonitor';
+import type { HeartRateMonitor, HeartRateReading } from '../live/heartRateMonitor';
+import { INITIAL_CUES, appendPoint, dueCue, finishedWindows, liveSchedule, phaseName, phaseProgress, readingToBeats, readingToPoint, scheduleLaps } from '../live/liveSession';
+import { createSimulatedMonitor } from '../live/simulatedMonitor';
+import { formatDrop } from '../export/report';
+import { formatClock } from '../utils/format';
+
+interface LivePanelProps {
+  params: TrainingParams;
+  // Receives the recording once the workout ends or is finished early
+  onFinish: (activity: ParsedActivity, name: string) => void;
+  onClose: () => void;
+}
+
+type LiveSource = 'bluetooth' | 'simulated';
+
+type LiveStatus = 'idle' | 'connecting' | 'recording' | 'disconnected';
+
+const SIMULATION_SPEEDS = [1, 5, 20];
+
+const STATUS_LABELS: Record<LiveStatus, string> = {
+  idle: 'Not recording',
+  connecting: 'Connecting…',
+  recording: 'Recording',
+  disconnected: 'Sensor disconnected'
+};
+
+const fieldClass = 'px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+const headerClass = 'px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider';
+
+const LivePanel = ({ params, onFinish, onClose }: LivePanelProps) => {
+  const [source, setSource] = useState<LiveSource>(bluetoothAvailable() ? 'bluetooth' : 'simulated');
+  const [speed, setSpeed] = useState(1);
+  const [status, setStatus] = useState<LiveStatus>('idle');
+  const [deviceName, setDeviceName] = useState<string | null>(null);
+  const [points, setPoints] = useState<TrackPointData[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  // Scores of the intervals finished so far, refreshed as each recovery ends
+  const [analysis, setAnalysis] = useState<SessionAnalysis | null>(null);
+
+  // Reading handlers outlive renders, so the recording itself lives in refs
+  const monitorRef = useRef<HeartRateMonitor | null>(null);
+  const startedAtRef = useRef<Date | null>(null);
+  const pointsRef = useRef<TrackPointData[]>([]);
+  const beatsRef = useRef<BeatInterval[]>([]);
+  const cueRef = useRef(INITIAL_CUES);
+  const scoredRef = useRef(0);
+
+  // Leaving the panel releases the sensor
+  useEffect(() => () => monitorRef.current?.stop(), []);
+
+  const schedule = useMemo(() => liveSchedule(params), [params]);
+  const zones = useMemo(() => calculateHRZones(params.maxHR, params.zoneModel, params.restingHR), [params]);
+  const elapsed = points.length > 0 ? points[points.length - 1].time : 0;
+  const progress = phaseProgress(schedule, elapsed);
+  const heartRate = points.length > 0 ? points[points.length - 1].heartRate : null;
+  const zone = heartRate !== null ? findZone(heartRate, zones) : null;
+
+  const chartData = useMemo(() => points.map(point => ({ minutes: point.time / 60, heartRate: point.heartRate })), [points]);
+
+  const stopMonitor = () => {
+    monitorRef.current?.stop();
+    monitorRef.current = null;
+    setStatus('idle');
+  };
+
+  const reset = () => {
+    pointsRef.current = [];
+    beatsRef.current = [];
+    startedAtRef.current = null;
+    cueRef.current = INITIAL_CUES;
+    scoredRef.current = 0;
+    setPoints([]);
+    setAnalysis(null);
+  };
+
+  const finish = () => {
+    stopMonitor();
+    const recorded = pointsRef.current;
+    const rrIntervals = beatsRef.current;
+    const startedAt = startedAtRef.current;
+    reset();
+    if (recorded.length < 2 || !startedAt) return;
+    const endTime = recorded[recorded.length - 1].time;
+    onFinish(
+      { points: recorded, laps: scheduleLaps(schedule, endTime), pauses: [], ...(rrIntervals.length > 0 && { rrIntervals }) },
+      `Live session ${startedAt.toLocaleString()}`
+    );
+  };
+
+  const cue = (time: number) => {
+    const { cue, cues } = dueCue(schedule, time, cueRef.current);
+    cueRef.current = cues;
+    if (cue?.kind === 'phase') phaseCue(phaseName(schedule, cue.segment), cue.segment.type === 'active');
+    if (cue?.kind === 'countdown') countdownCue();
+  };
+
+  // The full analysis grows with the recording, so it only runs once per finished interval
+  const scoreFinishedIntervals = (time: number) => {
+    const finished = finishedWindows(schedule, time);
+    if (finished.length === scoredRef.current) return;
+    scoredRef.current = finished.length;
+    setAnalysis(analyzeHIIT(pointsRef.current, params, NO_MARKERS, finished));
+  };
+
+  const handleReading = (reading: HeartRateReading) => {
+    startedAtRef.current ??= reading.timestamp;
+    const point = readingToPoint(reading, startedAtRef.current);
+    pointsRef.current = appendPoint(pointsRef.current, point);
+    beatsRef.current.push(...readingToBeats(reading, startedAtRef.current));
+    setPoints(pointsRef.current);
+    setStatus('recording');
+
+    if (point.time >= schedule.duration) {
+      finishCue();
+      finish();
+    } else {
+      cue(point.time);
+      scoreFinishedIntervals(point.time);
+    }
+  };
+
+  const handleDisconnect = () => setStatus('disconnected');
+
+  const connect = async (monitor: HeartRateMonitor) => {
+    setStatus('connecting');
+    setError(null);
+    try {
+      await monitor.start(handleReading, handleDisconnect);
+    } catch (error) {
+      console.error('Heart rate sensor connection failed:', error);
+      setError(error instanceof Error ? error.message : 'Could not connect to the heart rate sensor.');
+      setStatus(pointsRef.current.length > 0 ? 'disconnected' : 'idle');
+    }
+  };
+
+  const start = async () => {
+    unlockCues();
+    reset();
+    try {
+      const monitor = source === 'bluetooth' ? await requestBluetoothMonitor() : createSimulatedMonitor(params, speed);
+      monitorRef.current = monitor;
+      setDeviceName(monitor.name);
+      await connect(monitor);
+    } catch (error) {
+      // Closing the device chooser rejects too; that is not worth an error message
+      if (error instanceof DOMException && error.name === 'NotFoundError') return;
+      console.error('Heart rate sensor selection failed:', error);
+      setError(error instanceof Error ? error.message : 'Could not open the heart rate sensor.');
+    }
+  };
+
+  const discard = () => {
+    stopMonitor();
+    reset();
+  };
+
+  const close = () => {
+    if (points.length > 0 && !window.confirm('Discard the recording in progress?')) return;
+    discard();
+    onClose();
+  };
+
+  const recording = monitorRef.current !== null;
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold text-gray-800 flex items-center gap-2">
+          <Bluetooth className="text-blue-600" />
+          Live Recording
+        </h2>
+        <button onClick={close} className="p-2 text-gray-500 hover:text-gray-800" aria-label="Close live recording">
+          <X size={20} />
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4">
+        <div>
+          <label htmlFor="live-source" className="block text-sm font-medium text-gray-700 mb-1">Sensor</label>
+          <select
+            id="live-source"
+            value={source}
+            onChange={(e) => setSource(e.target.value as LiveSource)}
+            disabled={recording}
+            className={fieldClass}
+          >
+            <option value="bluetooth" disabled={!bluetoothAvailable()}>Bluetooth heart rate strap</option>
+            <option value="simulated">Simulated strap</option>
+          </select>
+        </div>
+        {source === 'simulated' && (
+          <div>
+            <label htmlFor="live-speed" className="block text-sm font-medium text-gray-700 mb-1">Speed</label>
+            <select
+              id="live-speed"
+              value={speed}
+              onChange={(e) => setSpeed(parseInt(e.target.value))}
+              disabled={recording}
+              className={fieldClass}
+            >
+              {SIMULATION_SPEEDS.map(option => <option key={option} value={option}>{option}×</option>)}
+            </select>
+          </div>
+        )}
+        {!recording ? (
+          <button
+            onClick={start}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            <Play size={20} />
+            Start Workout
+          </button>
+        ) : (
+          <>
+            <button
+              onClick={finish}
+              className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
+            >
+              <Square size={20} />
+              Finish and Analyze
+            </button>
+            {status === 'disconnected' && monitorRef.current && (
+              <button
+                onClick={() => monitorRef.current && connect(monitorRef.current)}
+                className="flex items-center gap-2 px-4 py-2 bg-gray-100 text-gray-800 rounded-lg hover:bg-gray-200 transition-colors"
+              >
+                <Bluetooth size={20} />
+                Reconnect
+              </button>
+            )}
+            <button
+              onClick={discard}
+              className="flex items-center gap-2 px-4 py-2 bg-gray-100 text-red-600 rounded-lg hover:bg-red-50 transition-colors"
+            >
+              <Trash2 size={20} />
+              Discard
+            </button>
+          </>
+        )}
+        <p className={`text-sm pb-2 ${status === 'disconnected' ? 'text-red-600' : 'text-gray-500'}`}>
+          {STATUS_LABELS[status]}{deviceName && status !== 'idle' ? ` · ${deviceName}` : ''}
+        </p>
+      </div>
+      {!bluetoothAvailable() && (
+        <p className="mt-2 text-xs text-gray-500">This browser has no Web Bluetooth; use Chrome or Edge to connect a strap.</p>
+      )}
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-6">
+        <div className="p-4 bg-gray-50 rounded-lg">
+          <p className="text-sm text-gray-600">Heart Rate</p>
+          <p className="text-4xl font-bold text-gray-900">{heartRate ?? '–'}<span className="text-base font-normal text-gray-500"> bpm</span></p>
+          <p className="text-sm" style={{ color: zone ? zones[zone].color : undefined }}>{zone ? zones[zone].name : ' '}</p>
+        </div>
+        <div className={`p-4 rounded-lg ${progress.current?.type === 'active' ? 'bg-red-50' : 'bg-green-50'}`}>
+          <p className="text-sm text-gray-600">{progress.current ? phaseName(schedule, progress.current) : 'Planned workout'}</p>
+          <p className="text-4xl font-bold text-gray-900">{formatClock(progress.remaining)}</p>
+          <p className="text-sm text-gray-500">left in phase</p>
+        </div>
+        <div className="p-4 bg-gray-50 rounded-lg">
+          <p className="text-sm text-gray-600">Next</p>
+          <p className="text-xl font-semibold text-gray-900">{progress.next ? phaseName(schedule, progress.next) : 'Finish'}</p>
+        </div>
+        <div className="p-4 bg-gray-50 rounded-lg">
+          <p className="text-sm text-gray-600">Elapsed</p>
+          <p className="text-xl font-semibold text-gray-900">{formatClock(elapsed)} / {formatClock(schedule.duration)}</p>
+        </div>
+      </div>
+
+      <div className="mt-6" style={{ width: '100%', height: 260 }}>
+        <ResponsiveContainer>
+          <LineChart data={chartData} margin={{ top: 10, right: 20, left: 0, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="2 2" stroke="#e5e7eb" opacity={0.5} />
+            <XAxis
+              dataKey="minutes"
+              type="number"
+              domain={[0, schedule.duration / 60]}
+              tickFormatter={(minutes: number) => formatClock(minutes * 60)}
+              tick={{ fill: '#6b7280', fontSize: 12 }}
+            />
+            <YAxis domain={[params.restingHR, params.maxHR]} tick={{ fill: '#6b7280', fontSize: 12 }} />
+            {schedule.phases.filter(phase => PHASE_SHADES[phase.type]).map(phase => (
+              <ReferenceArea
+                key={`${phase.type}-${phase.start}`}
+                x1={phase.start / 60}
+                x2={phase.end / 60}
+                fill={PHASE_SHADES[phase.type]}
+                fillOpacity={phase.type === 'active' ? 0.12 : 0.06}
+                ifOverflow="hidden"
+              />
+            ))}
+            <ReferenceLine x={elapsed / 60} stroke="#6B7280" strokeDasharray="4 4" />
+            <Line type="monotone" dataKey="heartRate" stroke="#2563EB" strokeWidth={2} dot={false} isAnimationActive={false} />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      {analysis && analysis.recoveryScores.length > 0 && (
+        <div className="mt-6 overflow-x-auto">
+          <h3 className="text-lg font-medium text-gray-800 mb-2">Recovery So Far</h3>
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead>
+              <tr>
+                <th className={headerClass}>Interval</th>
+                <th className={headerClass}>Peak</th>
+                <th className={headerClass}>Low</th>
+                <th className={headerClass}>Drop</th>
+                <th className={headerClass}>HRR60</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {analysis.recoveryScores.map(score => (
+                <tr key={score.interval}>
+                  <td className="px-4 py-2 text-sm font-medium text-gray-900">{score.name}</td>
+                  <td className="px-4 py-2 text-sm text-gray-600">{score.maxActive} bpm</td>
+                  <td className="px-4 py-2 text-sm text-gray-600">{formatDrop(score.minRecovery)}</td>
+                  <td className="px-4 py-2 text-sm text-gray-600">{formatDrop(score.recoveryScore)}</td>
+                  <td className="px-4 py-2 text-sm text-gray-600">{score.hrr60 !== null ? `${score.hrr60} bpm` : '–'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LivePanel;
@@ -0,0 +1,224 @@
+import { useState } from 'react';
+import { ArrowDown, ArrowUp, Plus, Save, Trash2 } from 'lucide-react';
+import type { PlanStep, PlanStepType, WorkoutPlan } from '../types';
+import { BUILT_IN_PLANS, planDuration } from '../analysis/plans';
+import type { HRZones } from '../analysis/zones';
+import { formatClock } from '../utils/format';
+
+interface PlanEditorProps {
+  plan: WorkoutPlan | null;
+  savedPlans: WorkoutPlan[];
+  zones: HRZones;
+  onChange: (plan: WorkoutPlan | null) => void;
+  onSave: (plan: WorkoutPlan) => void;
+  onDelete: (id: number) => void;
+  error?: string;
+}
+
+const STEP_TYPE_LABELS: Record<PlanStepType, string> = {
+  warmup: 'Warmup',
+  active: 'Active',
+  recovery: 'Recovery',
+  rest: 'Rest',
+  cooldown: 'Cooldown'
+};
+
+// Only work steps and the recoveries after them are scored against a target
+const UNTARGETED_TYPES: PlanStepType[] = ['warmup', 'cooldown'];
+
+const fieldClass = 'px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+// Select value for the current plan: saved plans by id, templates by name
+const selectionOf = (plan: WorkoutPlan | null) => {
+  if (!plan) return '';
+  if (plan.id !== undefined) return `saved:${plan.id}`;
+  const template = BUILT_IN_PLANS.findIndex(builtIn => builtIn.name === plan.name);
+  return template >= 0 ? `builtin:${template}` : '';
+};
+
+const PlanEditor = ({ plan, savedPlans, zones, onChange, onSave, onDelete, error }: PlanEditorProps) => {
+  const [saveName, setSaveName] = useState('');
+
+  const select = (value: string) => {
+    const [source, key] = value.split(':');
+    const picked = source === 'builtin'
+      ? BUILT_IN_PLANS[parseInt(key)]
+      : savedPlans.find(saved => saved.id === parseInt(key));
+    // Templates are copied so edits never touch the built-in definitions
+    onChange(picked ? { ...picked, steps: picked.steps.map(step => ({ ...step })) } : null);
+    setSaveName(picked?.name ?? '');
+  };
+
+  const updateSteps = (steps: PlanStep[]) => {
+    if (plan) onChange({ ...plan, steps });
+  };
+
+  const updateStep = (index: number, changes: Partial<PlanStep>) => {
+    if (plan) updateSteps(plan.steps.map((step, i) => i === index ? { ...step, ...changes } : step));
+  };
+
+  const moveStep = (index: number, offset: number) => {
+    if (!plan) return;
+    const steps = [...plan.steps];
+    const [moved] = steps.splice(index, 1);
+    steps.splice(index + offset, 0, moved);
+    updateSteps(steps);
+  };
+
+  const addStep = () => {
+    if (!plan) return;
+    updateSteps([...plan.steps, { name: `Step ${plan.steps.length + 1}`, type: 'active', duration: 60, targetZone: null }]);
+  };
+
+  const save = () => {
+    if (!plan) return;
+    const name = saveName.trim() || plan.name;
+    // Renaming a saved plan stores a new copy instead of overwriting it
+    const { id, ...rest } = plan;
+    onSave(id !== undefined && name === plan.name ? { ...plan } : { ...rest, name });
+  };
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-200">
+      <div className="flex flex-wrap items-end gap-4">
+        <div>
+          <label htmlFor="workout-plan" className="block text-sm font-medium text-gray-700 mb-1">Workout Plan</label>
+          <select
+            id="workout-plan"
+            value={selectionOf(plan)}
+            onChange={(e) => select(e.target.value)}
+            className={fieldClass}
+          >
+            <option value="">Uniform schedule (fields above)</option>
+            <optgroup label="Templates">
+              {BUILT_IN_PLANS.map((builtIn, i) => (
+                <option key={builtIn.name} value={`builtin:${i}`}>{builtIn.name}</option>
+              ))}
+            </optgroup>
+            {savedPlans.length > 0 && (
+              <optgroup label="Saved plans">
+                {savedPlans.map(saved => (
+                  <option key={saved.id} value={`saved:${saved.id}`}>{saved.name}</option>
+                ))}
+              </optgroup>
+            )}
+          </select>
+        </div>
+        {plan && (
+          <p className="text-sm text-gray-500 pb-2">
+            {plan.steps.length} steps, {formatClock(planDuration(plan))} in total. The plan replaces the warmup, active, recovery, interval and cooldown fields.
+          </p>
+        )}
+      </div>
+
+      {plan && (
+        <div className="mt-4 space-y-2">
+          {plan.steps.map((step, index) => (
+            <div key={index} className="flex flex-wrap items-center gap-2">
+              <input
+                type="text"
+                value={step.name}
+                onChange={(e) => updateStep(index, { name: e.target.value })}
+                className={fieldClass}
+                aria-label="Step name"
+              />
+              <select
+                value={step.type}
+                onChange={(e) => {
+                  const type = e.target.value as PlanStepType;
+                  updateStep(index, UNTARGETED_TYPES.includes(type) ? { type, targetZone: null } : { type });
+                }}
+                className={fieldClass}
+                aria-label={`Type of ${step.name}`}
+              >
+                {Object.entries(STEP_TYPE_LABELS).map(([type, label]) => (
+                  <option key={type} value={type}>{label}</option>
+                ))}
+              </select>
+              <input
+                type="number"
+                value={step.duration}
+                onChange={(e) => updateStep(index, { duration: parseInt(e.target.value) || 0 })}
+                className={`w-24 ${fieldClass}`}
+                aria-label={`Duration of ${step.name} in seconds`}
+              />
+              <span className="text-sm text-gray-500">s</span>
+              <select
+                value={step.targetZone ?? ''}
+                onChange={(e) => updateStep(index, { targetZone: e.target.value || null })}
+                disabled={UNTARGETED_TYPES.includes(step.type)}
+                className={`${fieldClass} disabled:bg-gray-100`}
+                aria-label={`Target zone of ${step.name}`}
+              >
+                <option value="">No target</option>
+                {Object.entries(zones).map(([key, zone]) => (
+                  <option key={key} value={key}>{zone.name}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => moveStep(index, -1)}
+                disabled={index === 0}
+                className="p-2 text-gray-500 hover:text-blue-600 disabled:opacity-30"
+                aria-label={`Move ${step.name} up`}
+              >
+                <ArrowUp size={16} />
+              </button>
+              <button
+                onClick={() => moveStep(index, 1)}
+                disabled={index === plan.steps.length - 1}
+                className="p-2 text-gray-500 hover:text-blue-600 disabled:opacity-30"
+                aria-label={`Move ${step.name} down`}
+              >
+                <ArrowDown size={16} />
+              </button>
+              <button
+                onClick={() => updateSteps(plan.steps.filter((_, i) => i !== index))}
+                className="p-2 text-gray-500 hover:text-red-600"
+                aria-label={`Remove ${step.name}`}
+              >
+                <Trash2 size={16} />
+              </button>
+            </div>
+          ))}
+          <div className="flex flex-wrap items-center gap-2">
+            <button
+              onClick={addStep}
+              className="flex items-center gap-1 px-3 py-1 text-sm bg-gray-100 text-gray-800 rounded-md hover:bg-gray-200 transition-colors"
+            >
+              <Plus size={16} />
+              Add Step
+            </button>
+            <input
+              type="text"
+              value={saveName}
+              onChange={(e) => setSaveName(e.target.value)}
+              placeholder={plan.name}
+              className={`ml-auto ${fieldClass}`}
+              aria-label="Plan name"
+            />
+            <button
+              onClick={save}
+              className="flex items-center gap-1 px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+            >
+              <Save size={16} />
+              Save Plan
+            </button>
+            {plan.id !== undefined && (
+              <button
+                onClick={() => plan.id !== undefined && onDelete(plan.id)}
+                className="flex items-center gap-1 px-3 py-1 text-sm bg-gray-100 text-red-600 rounded-md hover:bg-red-50 transition-colors"
+              >
+                <Trash2 size={16} />
+                Delete
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {error && <p className="mt-2 text-xs text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+export default PlanEditor;
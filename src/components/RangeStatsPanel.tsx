@@ -0,0 +1,69 @@
+import { X, ZoomIn } from 'lucide-react';
+import type { HRZones } from '../analysis/zones';
+import { zonePercentage } from '../analysis/zones';
+import type { RangeStats } from '../analysis/selection';
+import { formatClock } from '../utils/format';
+
+interface RangeStatsPanelProps {
+  stats: RangeStats;
+  zones: HRZones;
+  onZoom: () => void;
+  onClear: () => void;
+}
+
+const RangeStatsPanel = ({ stats, zones, onZoom, onClear }: RangeStatsPanelProps) => (
+  <div className="mt-4 p-4 bg-blue-50 rounded-lg">
+    <div className="flex items-center justify-between mb-3">
+      <h3 className="text-lg font-medium text-blue-900">
+        Selection {formatClock(stats.start)} – {formatClock(stats.end)}
+      </h3>
+      <div className="flex gap-2">
+        <button
+          onClick={onZoom}
+          className="flex items-center gap-1 px-3 py-1 text-sm bg-white text-blue-700 rounded-md hover:bg-blue-100 transition-colors"
+        >
+          <ZoomIn size={16} />
+          Zoom to Selection
+        </button>
+        <button
+          onClick={onClear}
+          className="p-1 text-blue-700 hover:text-blue-900"
+          aria-label="Clear selection"
+        >
+          <X size={16} />
+        </button>
+      </div>
+    </div>
+    <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-sm">
+      <div>
+        <p className="text-blue-800">Duration</p>
+        <p className="text-xl font-bold text-gray-800">{formatClock(stats.duration)}</p>
+      </div>
+      <div>
+        <p className="text-blue-800">Average HR</p>
+        <p className="text-xl font-bold text-gray-800">{stats.avgHR} bpm</p>
+      </div>
+      <div>
+        <p className="text-blue-800">Max HR</p>
+        <p className="text-xl font-bold text-gray-800">{stats.maxHR} bpm</p>
+      </div>
+      <div>
+        <p className="text-blue-800">Min HR</p>
+        <p className="text-xl font-bold text-gray-800">{stats.minHR} bpm</p>
+      </div>
+    </div>
+    <div className="mt-3 flex flex-wrap gap-x-4 gap-y-1 text-sm text-gray-700">
+      {Object.entries(zones).map(([key, zone]) => {
+        const seconds = stats.zoneTime.seconds[key] || 0;
+        return (
+          <span key={key} className="flex items-center gap-1">
+            <span className="inline-block w-3 h-3 rounded-full" style={{ backgroundColor: zone.color }}></span>
+            {zone.name}: {formatClock(seconds)} ({zonePercentage(seconds, stats.zoneTime)}%)
+          </span>
+        );
+      })}
+    </div>
+  </div>
+);
+
+export default RangeStatsPanel;
@@ -0,0 +1,131 @@
+import { Plus, Trash2 } from 'lucide-react';
+import type { HRZone, ZoneModel, ZoneModelType } from '../types';
+import { ZONE_MODEL_LABELS, percentMaxZones } from '../analysis/zones';
+
+interface ZoneModelEditorProps {
+  model: ZoneModel;
+  maxHR: number;
+  onChange: (model: ZoneModel) => void;
+  error?: string;
+}
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+const ZoneModelEditor = ({ model, maxHR, onChange, error }: ZoneModelEditorProps) => {
+  const updateZone = (index: number, changes: Partial<HRZone>) => {
+    const customZones = model.customZones.map((zone, i) => i === index ? { ...zone, ...changes } : zone);
+    onChange({ ...model, customZones });
+  };
+
+  const addZone = () => {
+    const last = model.customZones[model.customZones.length - 1];
+    const min = last ? last.max : Math.round(maxHR * 0.5);
+    onChange({
+      ...model,
+      customZones: [...model.customZones, { name: `Zone ${model.customZones.length + 1}`, min, max: min + 10, color: '#6B7280' }]
+    });
+  };
+
+  const removeZone = (index: number) => {
+    onChange({ ...model, customZones: model.customZones.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-200">
+      <div className="flex flex-wrap items-end gap-4">
+        <div>
+          <label htmlFor="zone-model" className="block text-sm font-medium text-gray-700 mb-1">Zone Model</label>
+          <select
+            id="zone-model"
+            value={model.type}
+            onChange={(e) => onChange({ ...model, type: e.target.value as ZoneModelType })}
+            className="px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            {Object.entries(ZONE_MODEL_LABELS).map(([type, label]) => (
+              <option key={type} value={type}>{label}</option>
+            ))}
+          </select>
+        </div>
+        {model.type === 'karvonen' && (
+          <p className="text-sm text-gray-500 pb-2">Bands are 50–100% of the reserve between Resting HR and Max HR.</p>
+        )}
+        {model.type === 'lthr' && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">LTHR</label>
+            <input
+              type="number"
+              value={model.lthr}
+              onChange={(e) => onChange({ ...model, lthr: parseInt(e.target.value) || 160 })}
+              className={inputClass}
+            />
+          </div>
+        )}
+      </div>
+
+      {model.type === 'custom' && (
+        <div className="mt-4 space-y-2">
+          {model.customZones.map((zone, index) => (
+            <div key={index} className="flex flex-wrap items-center gap-2">
+              <input
+                type="color"
+                value={zone.color}
+                onChange={(e) => updateZone(index, { color: e.target.value })}
+                className="h-9 w-9 border border-gray-300 rounded-md"
+                aria-label={`Color of ${zone.name}`}
+              />
+              <input
+                type="text"
+                value={zone.name}
+                onChange={(e) => updateZone(index, { name: e.target.value })}
+                className="px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                aria-label="Zone name"
+              />
+              <input
+                type="number"
+                value={zone.min}
+                onChange={(e) => updateZone(index, { min: parseInt(e.target.value) || 0 })}
+                className="w-24 px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                aria-label={`Lower bound of ${zone.name}`}
+              />
+              <span className="text-gray-500">–</span>
+              <input
+                type="number"
+                value={zone.max}
+                onChange={(e) => updateZone(index, { max: parseInt(e.target.value) || 0 })}
+                className="w-24 px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                aria-label={`Upper bound of ${zone.name}`}
+              />
+              <span className="text-sm text-gray-500">bpm</span>
+              <button
+                onClick={() => removeZone(index)}
+                className="p-2 text-gray-500 hover:text-red-600"
+                aria-label={`Remove ${zone.name}`}
+              >
+                <Trash2 size={16} />
+              </button>
+            </div>
+          ))}
+          <div className="flex gap-2">
+            <button
+              onClick={addZone}
+              className="flex items-center gap-1 px-3 py-1 text-sm bg-gray-100 text-gray-800 rounded-md hover:bg-gray-200 transition-colors"
+            >
+              <Plus size={16} />
+              Add Zone
+            </button>
+            <button
+              onClick={() => onChange({ ...model, customZones: percentMaxZones(maxHR) })}
+              className="px-3 py-1 text-sm bg-gray-100 text-gray-800 rounded-md hover:bg-gray-200 transition-colors"
+            >
+              Reset to % of Max HR
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && <p className="mt-2 text-xs text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+export default ZoneModelEditor;
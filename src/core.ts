@@ -0,0 +1,65 @@
+// Framework-free entry point: parsing, analysis and exports without React or the browser DOM
+
+import type { ParsedActivity, TrainingParams } from './types';
+import { cleanHeartRate } from './analysis/cleaning';
+import type { CleaningReport } from './analysis/cleaning';
+import { sessionPhases } from './analysis/phases';
+import type { PhaseSegment } from './analysis/phases';
+import { analyzeHIIT, buildChartData } from './analysis/session';
+import type { ChartPoint, SessionAnalysis } from './analysis/session';
+import type { IntervalWindow } from './analysis/intervalDetection';
+import { ActivityImportError, parseActivityFile } from './importers';
+
+export type * from './types';
+export { ActivityImportError, importers, parseActivityFile, sniffImporter } from './importers';
+export { DEFAULT_CLEANING, cleanHeartRate } from './analysis/cleaning';
+export type { CleanedSignal, CleaningReport } from './analysis/cleaning';
+export { DEFAULT_PARAMS, DETECTION_LABELS, analyzeHIIT, buildChartData, calculateCalories, toMinutes } from './analysis/session';
+export type { ChartPoint, SessionAnalysis } from './analysis/session';
+export { DEFAULT_ZONE_MODEL, ZONE_MODEL_LABELS, calculateHRZones } from './analysis/zones';
+export type { HRZones } from './analysis/zones';
+export { analyzeHrv, poincarePoints } from './analysis/hrv';
+export type { HrvStats, PhaseHrv, SessionHrv } from './analysis/hrv';
+export { sessionPhases } from './analysis/phases';
+export type { PhaseSegment } from './analysis/phases';
+export { BUILT_IN_PLANS } from './analysis/plans';
+export { validateParams } from './analysis/validation';
+export { analysisToJson, chartDataToCsv } from './export/data';
+export { buildReport } from './export/report';
+export { parseXml, XmlParseError } from './utils/xml';
+
+export interface ActivityResult {
+  activity: ParsedActivity;
+  cleaning: CleaningReport;
+  analysis: SessionAnalysis;
+  chartData: ChartPoint[];
+  phases: PhaseSegment[];
+}
+
+/**
+ * Runs the same pipeline as the app for one file: import, heart-rate
+ * cleaning, analysis, chart series and phases. `lastModified` (ms since the
+ * epoch) dates formats without absolute timestamps, such as CSV and RR lists.
+ * Throws ActivityImportError when the file cannot be read or holds no
+ * heart-rate samples.
+ */
+export const analyzeActivity = (
+  bytes: Uint8Array,
+  fileName: string,
+  lastModified: number,
+  params: TrainingParams,
+  intervalEdits: IntervalWindow[] | null = null
+): ActivityResult => {
+  const activity = parseActivityFile(bytes, fileName, lastModified);
+  if (activity.points.length === 0) throw new ActivityImportError(`"${fileName}" contains no heart-rate samples.`, null);
+
+  const cleaned = cleanHeartRate(activity.points, params.cleaning, params.maxGap, activity.pauses);
+  const analysis = analyzeHIIT(cleaned.data, params, activity, intervalEdits, activity.rrIntervals);
+  return {
+    activity,
+    cleaning: cleaned.report,
+    analysis,
+    chartData: buildChartData(cleaned.data, analysis.zones),
+    phases: sessionPhases(analysis, cleaned.data[cleaned.data.length - 1].time)
+  };
+};
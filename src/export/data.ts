@@ -0,0 +1,52 @@
+import type { TrainingParams } from '../types';
+import { CHANNEL_KEYS, availableChannels } from '../analysis/channels';
+import type { HRZones } from '../analysis/zones';
+import type { ChartPoint, SessionAnalysis } from '../analysis/session';
+import { phaseAt } from '../analysis/phases';
+import type { PhaseSegment } from '../analysis/phases';
+
+const CSV_COLUMNS = ['timestamp', 'elapsed_seconds', 'elapsed_minutes', 'heart_rate', 'zone', 'zone_name', 'phase', 'interval'];
+
+// Sensor channels keep their SI units in the export
+const CHANNEL_COLUMNS: Record<(typeof CHANNEL_KEYS)[number], string> = {
+  power: 'power_w',
+  speed: 'speed_mps',
+  cadence: 'cadence_rpm',
+  altitude: 'altitude_m',
+  distance: 'distance_m'
+};
+
+const csvField = (value: string | number | null) => {
+  const text = value === null ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One row per sample with its zone, the phase it falls in and any recorded channels
+export const chartDataToCsv = (points: ChartPoint[], zones: HRZones, phases: PhaseSegment[]) => {
+  const channels = availableChannels(points);
+  const rows = points.map(point => {
+    const phase = phaseAt(phases, point.time);
+    return [
+      point.timestamp.toISOString(),
+      point.time,
+      point.timeMinutes,
+      point.heartRate,
+      point.zone,
+      point.zone !== null ? zones[point.zone]?.name ?? '' : '',
+      phase?.type ?? '',
+      phase?.interval ?? null,
+      ...channels.map(key => point[key] ?? null)
+    ].map(csvField).join(',');
+  });
+  const header = [...CSV_COLUMNS, ...channels.map(key => CHANNEL_COLUMNS[key])];
+  return [header.join(','), ...rows].join('\n') + '\n';
+};
+
+// Dates serialize as ISO strings through JSON.stringify
+export const analysisToJson = (analysis: SessionAnalysis, params: TrainingParams, source: string | null) =>
+  JSON.stringify({
+    exportedAt: new Date(),
+    source,
+    params,
+    analysis
+  }, null, 2);
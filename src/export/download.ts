@@ -0,0 +1,29 @@
+// Triggers a browser download of the blob; returns false if the browser refused
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  try {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.style.display = 'none';
+
+    document.body.appendChild(link);
+    link.click();
+
+    // Cleanup
+    setTimeout(() => {
+      if (document.body.contains(link)) {
+        document.body.removeChild(link);
+      }
+      URL.revokeObjectURL(url);
+    }, 100);
+
+    return true;
+  } catch (error) {
+    console.error('Download method failed:', error);
+    return false;
+  }
+};
+
+export const datedFileName = (prefix: string, extension: string) =>
+  `${prefix}-${new Date().toISOString().split('T')[0]}.${extension}`;
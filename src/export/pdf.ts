@@ -0,0 +1,154 @@
+import { canvasToBlob } from './svg';
+
+// JPEG image embedded with DCTDecode, sized in pixels
+export interface PdfImage {
+  data: Uint8Array;
+  width: number;
+  height: number;
+}
+
+export interface PdfReport {
+  title: string;
+  lines: string[];
+  image?: PdfImage | null;
+}
+
+// A4 in points
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 48;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const TITLE_SIZE = 16;
+const FONT_SIZE = 8.5;
+const LEADING = 11;
+const FOOTER_SIZE = 8;
+
+// The standard fonts only cover WinAnsi, so box drawing and arrows are mapped
+// to ASCII and anything else outside Latin-1 (emoji) is dropped
+const REPLACEMENTS: Record<string, string> = {
+  '•': '\x95',
+  '–': '\x96',
+  '—': '\x97',
+  '→': '->',
+  '═': '=',
+  '━': '=',
+  '─': '-',
+  '║': '|',
+  '╔': '+',
+  '╗': '+',
+  '╚': '+',
+  '╝': '+'
+};
+
+export const toWinAnsi = (text: string) =>
+  Array.from(text).map(char => {
+    if (char in REPLACEMENTS) return REPLACEMENTS[char];
+    const code = char.charCodeAt(0);
+    return code < 0x80 || code >= 0xa0 && code < 0x100 ? char : '';
+  }).join('');
+
+const escapeText = (text: string) => toWinAnsi(text).replace(/[\\()]/g, match => `\\${match}`);
+
+const latin1 = (text: string) => Uint8Array.from(text, char => char.charCodeAt(0));
+
+const textOp = (font: string, size: number, x: number, y: number, text: string) =>
+  `BT /${font} ${size} Tf ${x.toFixed(2)} ${y.toFixed(2)} Td (${escapeText(text)}) Tj ET`;
+
+// Lays the report out into content streams, one per page
+const layoutPages = (report: PdfReport) => {
+  const pages: string[][] = [];
+  let ops: string[] = [];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  ops.push(textOp('F2', TITLE_SIZE, MARGIN, y - TITLE_SIZE, report.title));
+  y -= TITLE_SIZE + 12;
+
+  if (report.image) {
+    const scale = Math.min(CONTENT_WIDTH / report.image.width, (PAGE_HEIGHT / 2) / report.image.height);
+    const width = report.image.width * scale;
+    const height = report.image.height * scale;
+    ops.push(`q ${width.toFixed(2)} 0 0 ${height.toFixed(2)} ${MARGIN} ${(y - height).toFixed(2)} cm /Im1 Do Q`);
+    y -= height + 16;
+  }
+
+  for (const line of report.lines) {
+    if (y - LEADING < MARGIN) {
+      pages.push(ops);
+      ops = [];
+      y = PAGE_HEIGHT - MARGIN;
+    }
+    if (line.trim()) ops.push(textOp('F1', FONT_SIZE, MARGIN, y - FONT_SIZE, line));
+    y -= LEADING;
+  }
+  pages.push(ops);
+
+  return pages.map((pageOps, index) => [
+    ...pageOps,
+    textOp('F3', FOOTER_SIZE, PAGE_WIDTH - MARGIN - 60, MARGIN / 2, `Page ${index + 1} of ${pages.length}`)
+  ].join('\n'));
+};
+
+/**
+ * Writes a multi-page PDF with a title, an optional chart image and the
+ * report text set in Courier so the column alignment of the text report holds.
+ */
+export const buildPdf = (report: PdfReport): Blob => {
+  const contents = layoutPages(report);
+  const imageId = report.image ? 6 : null;
+  const firstPageId = imageId ? 7 : 6;
+  const pageIds = contents.map((_, index) => firstPageId + index * 2);
+
+  const objects: (string | Uint8Array)[][] = [];
+  const add = (...parts: (string | Uint8Array)[]) => objects.push(parts);
+
+  add('<< /Type /Catalog /Pages 2 0 R >>');
+  add(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`);
+  add('<< /Type /Font /Subtype /Type1 /BaseFont /Courier /Encoding /WinAnsiEncoding >>');
+  add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+  add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+  if (report.image) {
+    const { data, width, height } = report.image;
+    add(
+      `<< /Type /XObject /Subtype /Image /Width ${width} /Height ${height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${data.length} >>\nstream\n`,
+      data,
+      '\nendstream'
+    );
+  }
+  const xObjects = imageId ? ` /XObject << /Im1 ${imageId} 0 R >>` : '';
+  contents.forEach((content, index) => {
+    add(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R /F3 5 0 R >>${xObjects} >> /Contents ${pageIds[index] + 1} 0 R >>`
+    );
+    add(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+  });
+
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+  const write = (part: string | Uint8Array) => {
+    const bytes = typeof part === 'string' ? latin1(part) : part;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+
+  write('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n');
+  objects.forEach((parts, index) => {
+    offsets.push(length);
+    write(`${index + 1} 0 obj\n`);
+    parts.forEach(write);
+    write('\nendobj\n');
+  });
+
+  const xrefOffset = length;
+  write(`xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`);
+  offsets.forEach(offset => write(`${String(offset).padStart(10, '0')} 00000 n \n`));
+  write(`trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return new Blob(chunks as BlobPart[], { type: 'application/pdf' });
+};
+
+export const canvasToPdfImage = async (canvas: HTMLCanvasElement): Promise<PdfImage> => {
+  const blob = await canvasToBlob(canvas, 'image/jpeg', 0.92);
+  return { data: new Uint8Array(await blob.arrayBuffer()), width: canvas.width, height: canvas.height };
+};
@@ -0,0 +1,164 @@
+import type { TrainingParams } from '../types';
+import { ACTIVE_CHANNEL_FIELDS, CHANNELS, formatChannel } from '../analysis/channels';
+import type { CleaningReport } from '../analysis/cleaning';
+import { removedPoints } from '../analysis/cleaning';
+import { COMPLIANCE_PASS_SHARE, targetLabel } from '../analysis/compliance';
+import type { SegmentCompliance } from '../analysis/compliance';
+import type { SessionHrv } from '../analysis/hrv';
+import type { ScheduleDrift } from '../analysis/intervalDetection';
+import { trainingEffectLabel } from '../analysis/load';
+import { phaseLabel } from '../analysis/phases';
+import { planDuration } from '../analysis/plans';
+import { DETECTION_LABELS } from '../analysis/session';
+import type { SessionAnalysis } from '../analysis/session';
+import { ZONE_MODEL_LABELS, zonePercentage } from '../analysis/zones';
+import { formatClock } from '../utils/format';
+
+export interface ReportOptions {
+  // Removal report of the artifact filter, null when it was off
+  cleaning: CleaningReport | null;
+  // Interval boundaries were corrected by hand
+  corrected: boolean;
+  generatedAt?: Date;
+}
+
+export const formatDrop = (drop: number | null) => drop !== null ? `${drop} bpm` : '–';
+
+const formatSeconds = (seconds: number) => `${seconds >= 0 ? '+' : ''}${seconds}s`;
+
+export const formatDrift = (drift?: ScheduleDrift) => {
+  if (!drift) return '';
+  return `start ${formatSeconds(drift.start)}, active end ${formatSeconds(drift.activeEnd)}`;
+};
+
+export const formatCompliance = (segment: SegmentCompliance | null) => {
+  if (!segment) return '–';
+  return `${segment.share}% in target, ${segment.timeToTarget !== null ? `reached after ${segment.timeToTarget}s` : 'never reached'}`;
+};
+
+// Recovery RMSSD with its share of the warmup RMSSD, for one interval
+export const formatReactivation = (hrv: SessionHrv, interval: number) => {
+  const recovery = hrv.phases.find(segment => segment.type === 'recovery' && segment.interval === interval);
+  if (!recovery) return '–';
+  return `${recovery.rmssd} ms${recovery.reactivation !== null ? ` (${recovery.reactivation}%)` : ''}`;
+};
+
+// Channel averages shown per interval, for the channels the session recorded
+export const activeChannelColumns = (analysis: Pick<SessionAnalysis, 'channels'>) =>
+  ACTIVE_CHANNEL_FIELDS.filter(([key]) => analysis.channels.includes(key));
+
+// Plain-text report shared by the text and PDF exports and the command line
+export const buildReport = (analysis: SessionAnalysis, params: TrainingParams, options: ReportOptions) => {
+  const generatedAt = options.generatedAt ?? new Date();
+  const channelColumns = activeChannelColumns(analysis);
+
+  // Create a comprehensive text report with better formatting
+  return `
+╔════════════════════════════════════════════════════════════════════════════════╗
+║                            HIIT TRAINING ANALYSIS REPORT                       ║
+║                          Generated: ${generatedAt.toLocaleString()}                         ║
+╚════════════════════════════════════════════════════════════════════════════════╝
+
+📊 WORKOUT SUMMARY
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  • Average Heart Rate:        ${analysis.avgHR} bpm
+  • Perceived Intensity:       ${analysis.perceivedIntensity}%
+  • Estimated Calories:        ${analysis.calories} kcal
+  • Total Duration:            ${analysis.totalDuration} minutes${analysis.pausedTime > 0 ? ` (excluding ${formatClock(analysis.pausedTime)} paused)` : ''}
+  • Cumulative Recovery Score: ${analysis.cumulativeRecoveryScore}
+${analysis.decoupling !== null ? `  • HR-Power Decoupling:      ${analysis.decoupling}%\n` : ''}  • Banister TRIMP:            ${analysis.load.banisterTrimp}
+  • Edwards TRIMP:             ${analysis.load.edwardsTrimp}
+  • Estimated Peak EPOC:       ${analysis.load.peakEpoc} ml/kg (Training Effect ${analysis.load.trainingEffect.toFixed(1)} - ${trainingEffectLabel(analysis.load.trainingEffect)})
+
+❤️ HEART RATE ZONES
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+${Object.entries(analysis.zones).map(([key, zone]) => {
+  const timeInZone = analysis.zoneDistribution[key] || 0;
+  const percentage = zonePercentage(timeInZone, { totalSeconds: analysis.zoneTotalSeconds });
+  return `  Zone ${zone.name.padEnd(20)} ${zone.min.toString().padStart(3)}-${zone.max.toString().padEnd(3)} bpm  ${formatClock(timeInZone).padStart(7)}  (${percentage.toString().padStart(2)}% of workout)`;
+}).join('\n')}
+
+🏃 TRAINING PARAMETERS
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  • Maximum Heart Rate:    ${params.maxHR} bpm
+  • Resting Heart Rate:    ${params.restingHR} bpm
+  • Age:                   ${params.age} years
+  • Sex:                   ${params.sex}
+  • Weight:                ${params.weight} kg
+${params.plan ? `  • Workout Plan:          ${params.plan.name} (${params.plan.steps.length} steps, ${formatClock(planDuration(params.plan))})` :
+`  • Warmup Duration:       ${Math.round(params.warmupTime / 60)} minutes
+  • Active Phase:          ${params.activePhase} seconds
+  • Recovery Phase:        ${params.recoveryPhase} seconds
+  • Number of Intervals:   ${params.intervals}
+  • Cooldown Duration:     ${Math.round(params.cooldownTime / 60)} minutes`}
+  • Zone Model:            ${ZONE_MODEL_LABELS[params.zoneModel.type]}
+  • Zone Time Gap Cap:     ${params.maxGap} seconds
+  • Interval Detection:    ${options.corrected ? 'Corrected by hand' : DETECTION_LABELS[params.intervalDetection]}
+  • Default Targets:       ${[params.targets.active && `active ${targetLabel(params.targets.active, analysis.zones, 'active')}`, params.targets.recovery && `recovery ${targetLabel(params.targets.recovery, analysis.zones, 'recovery')}`].filter(Boolean).join(', ') || 'None'}
+  • Artifact Filter:       ${options.cleaning ? `${removedPoints(options.cleaning)} of ${options.cleaning.inputPoints} samples removed, ${options.cleaning.gaps.length} gaps, ${options.cleaning.interpolated} samples interpolated` : 'Off'}
+
+📈 INTERVAL-BY-INTERVAL RECOVERY ANALYSIS
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+${analysis.recoveryScores.map((score, index) => {
+  const drift = analysis.intervals[index].drift;
+  return `  Interval ${score.interval.toString().padStart(2)}: ${score.maxActive.toString().padStart(3)} bpm → ${score.minRecovery !== null ? `${score.minRecovery.toString().padStart(3)} bpm` : 'no recovery'} (Recovery Score: ${(score.recoveryScore ?? '–').toString().padStart(2)})` +
+    (params.plan ? `  ${score.name}` : '') +
+    `\n               HRR30 ${formatDrop(score.hrr30).padStart(7)}  HRR60 ${formatDrop(score.hrr60).padStart(7)}  HRR120 ${formatDrop(score.hrr120).padStart(7)}  Tau ${score.tau !== null ? `${score.tau}s` : '–'}` +
+    (analysis.hrv ? `\n               RMSSD ${formatReactivation(analysis.hrv, score.interval)}` : '') +
+    (drift ? `\n               ${formatDrift(drift)} vs plan` : '') +
+    (score.compliance.passed !== null
+      ? `\n               Target ${score.compliance.passed ? 'PASS' : 'FAIL'}  Active: ${formatCompliance(score.compliance.active)}  Recovery: ${formatCompliance(score.compliance.recovery)}`
+      : '') +
+    (channelColumns.length > 0
+      ? `\n               Active: ${channelColumns.map(([key, field]) => `${CHANNELS[key].label} ${formatChannel(key, score[field])}`).join(', ')}`
+      : '');
+}).join('\n')}
+                                                           ─────────────────────
+                                                Total Score: ${analysis.cumulativeRecoveryScore.toString().padStart(3)}
+${analysis.compliance.overall !== null ? `                                    Target Compliance: ${analysis.compliance.overall}% (${analysis.compliance.passedIntervals} of ${analysis.compliance.scoredIntervals} intervals passed)` : ''}
+${analysis.hrv ? `
+💓 HEART RATE VARIABILITY
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+  ${analysis.hrv.beats} beats, ${analysis.hrv.artifacts} rejected as artifacts${analysis.hrv.poincare ? `  Poincaré SD1 ${analysis.hrv.poincare.sd1} ms, SD2 ${analysis.hrv.poincare.sd2} ms` : ''}
+${analysis.hrv.phases.map(segment =>
+  `  ${phaseLabel(segment).padEnd(12)} RMSSD ${`${segment.rmssd} ms`.padStart(8)}  SDNN ${`${segment.sdnn} ms`.padStart(8)}  pNN50 ${`${segment.pnn50}%`.padStart(6)}` +
+  (segment.reactivation !== null ? `  Reactivation ${segment.reactivation}% of warmup` : '')
+).join('\n') || '  No warmup, recovery or cooldown has enough clean beats.'}
+` : ''}
+💡 PERFORMANCE INSIGHTS
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+${analysis.compliance.active === null ? '  📈 No Intensity Targets: Set target zones for the active phases to have them checked.' :
+  analysis.compliance.active >= COMPLIANCE_PASS_SHARE ? `  🔥 On Target: Active phases spent ${analysis.compliance.active}% of their time in the target zones.` :
+  `  ⚡ Below Target: Active phases spent only ${analysis.compliance.active}% of their time in the target zones.`}
+
+${analysis.cumulativeRecoveryScore >= 150 ? '  💪 Excellent Recovery: Your cardiovascular fitness is showing great recovery capacity.' :
+  analysis.cumulativeRecoveryScore >= 100 ? '  👍 Good Recovery: Solid recovery between intervals, keep building endurance.' :
+  '  🎯 Building Recovery: Focus on improving recovery between intervals as fitness develops.'}
+
+${(() => {
+  const zone4And5Percentage = analysis.highIntensityShare;
+  return zone4And5Percentage >= 40 ? '  🚀 High-Intensity Focus: Great time spent in high-intensity zones (80%+ max HR).' :
+         zone4And5Percentage >= 20 ? '  ⭐ Balanced Training: Good mix of intensity zones for overall fitness.' :
+         '  📊 Endurance Focus: More time in lower zones - consider increasing intensity for HIIT benefits.';
+})()}
+
+📋 RECOMMENDATIONS FOR NEXT SESSION
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+${analysis.compliance.recovery === null ? '  • Set a recovery target zone to have recoveries checked' :
+  analysis.compliance.recovery < COMPLIANCE_PASS_SHARE ?
+  '  • Consider extending recovery phases or reducing active phase intensity - HR rarely dropped into the recovery target' :
+  '  • Recovery looks good - you could potentially increase active phase intensity'}
+${analysis.compliance.active === null ? '  • Set an active target zone to have the work phases checked' :
+  analysis.compliance.active < COMPLIANCE_PASS_SHARE ?
+  '  • Try to push harder during active phases to reach the target heart rate zones' :
+  '  • Excellent intensity - maintain this effort level'}
+  • Track your cumulative recovery score over time to monitor fitness improvements
+  • Aim for consistent recovery scores across all intervals
+  • Ensure adequate hydration and nutrition for optimal performance
+
+═══════════════════════════════════════════════════════════════════════════════════
+Generated by HIIT Training Analyzer - Advanced Heart Rate Analysis
+Report saved: ${generatedAt.toISOString().split('T')[0]}
+═══════════════════════════════════════════════════════════════════════════════════
+`;
+};
@@ -0,0 +1,103 @@
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const GAP = 24;
+const PADDING = 16;
+
+export interface ComposedSvg {
+  markup: string;
+  width: number;
+  height: number;
+}
+
+const svgSize = (svg: SVGSVGElement) => {
+  const box = svg.getBoundingClientRect();
+  return {
+    width: Number(svg.getAttribute('width')) || box.width,
+    height: Number(svg.getAttribute('height')) || box.height
+  };
+};
+
+/**
+ * Collects the Recharts surfaces inside the given containers and stacks them
+ * in one standalone SVG document on a white background.
+ */
+export const composeChartSvg = (containers: (HTMLElement | null)[], title?: string): ComposedSvg | null => {
+  const charts = containers
+    .map(container => container?.querySelector<SVGSVGElement>('svg.recharts-surface') ?? null)
+    .filter((svg): svg is SVGSVGElement => svg !== null);
+  if (charts.length === 0) return null;
+
+  const sizes = charts.map(svgSize);
+  const titleHeight = title ? 32 : 0;
+  const width = Math.max(...sizes.map(size => size.width)) + PADDING * 2;
+  const height = sizes.reduce((sum, size) => sum + size.height, 0) + GAP * (charts.length - 1) + titleHeight + PADDING * 2;
+
+  const root = document.createElementNS(SVG_NS, 'svg');
+  root.setAttribute('xmlns', SVG_NS);
+  root.setAttribute('width', String(width));
+  root.setAttribute('height', String(height));
+  root.setAttribute('viewBox', `0 0 ${width} ${height}`);
+  root.setAttribute('font-family', 'system-ui, Helvetica, Arial, sans-serif');
+
+  const background = document.createElementNS(SVG_NS, 'rect');
+  background.setAttribute('width', '100%');
+  background.setAttribute('height', '100%');
+  background.setAttribute('fill', '#ffffff');
+  root.appendChild(background);
+
+  if (title) {
+    const text = document.createElementNS(SVG_NS, 'text');
+    text.setAttribute('x', String(PADDING));
+    text.setAttribute('y', String(PADDING + 18));
+    text.setAttribute('font-size', '18');
+    text.setAttribute('font-weight', '600');
+    text.setAttribute('fill', '#1f2937');
+    text.textContent = title;
+    root.appendChild(text);
+  }
+
+  let y = PADDING + titleHeight;
+  charts.forEach((chart, index) => {
+    const clone = chart.cloneNode(true) as SVGSVGElement;
+    clone.setAttribute('x', String(PADDING));
+    clone.setAttribute('y', String(y));
+    clone.setAttribute('width', String(sizes[index].width));
+    clone.setAttribute('height', String(sizes[index].height));
+    root.appendChild(clone);
+    y += sizes[index].height + GAP;
+  });
+
+  return { markup: new XMLSerializer().serializeToString(root), width, height };
+};
+
+// Rasterizes a standalone SVG through a canvas
+export const svgToCanvas = (svg: ComposedSvg, scale: number = 2): Promise<HTMLCanvasElement> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([svg.markup], { type: 'image/svg+xml;charset=utf-8' }));
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(svg.width * scale);
+      canvas.height = Math.round(svg.height * scale);
+      const context = canvas.getContext('2d');
+      if (!context) {
+        URL.revokeObjectURL(url);
+        reject(new Error('Canvas is not available'));
+        return;
+      }
+      context.fillStyle = '#ffffff';
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      context.drawImage(image, 0, 0, canvas.width, canvas.height);
+      URL.revokeObjectURL(url);
+      resolve(canvas);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Failed to render chart image'));
+    };
+    image.src = url;
+  });
+
+export const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error(`Failed to encode ${type}`)), type, quality);
+  });
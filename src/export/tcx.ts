@@ -0,0 +1,95 @@
+import type { TrackPointData } from '../types';
+import type { PhaseSegment } from '../analysis/phases';
+
+const TCX_NAMESPACE = 'http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2';
+const TPX_NAMESPACE = 'http://www.garmin.com/xmlschemas/ActivityExtension/v2';
+
+const INTENSITY: Record<PhaseSegment['type'], 'Active' | 'Resting'> = {
+  warmup: 'Active',
+  active: 'Active',
+  recovery: 'Resting',
+  rest: 'Resting',
+  cooldown: 'Active'
+};
+
+const isoTime = (date: Date) => date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+
+// Element order follows the TCX schema
+const writeTrackpoint = (point: TrackPointData) => {
+  const lines = ['          <Trackpoint>', `            <Time>${isoTime(point.timestamp)}</Time>`];
+  if (point.altitude !== undefined) lines.push(`            <AltitudeMeters>${point.altitude}</AltitudeMeters>`);
+  if (point.distance !== undefined) lines.push(`            <DistanceMeters>${point.distance}</DistanceMeters>`);
+  lines.push(`            <HeartRateBpm><Value>${point.heartRate}</Value></HeartRateBpm>`);
+  if (point.cadence !== undefined) lines.push(`            <Cadence>${Math.round(point.cadence)}</Cadence>`);
+  if (point.speed !== undefined || point.power !== undefined) {
+    lines.push('            <Extensions>', `              <TPX xmlns="${TPX_NAMESPACE}">`);
+    if (point.speed !== undefined) lines.push(`                <Speed>${point.speed}</Speed>`);
+    if (point.power !== undefined) lines.push(`                <Watts>${Math.round(point.power)}</Watts>`);
+    lines.push('              </TPX>', '            </Extensions>');
+  }
+  lines.push('          </Trackpoint>');
+  return lines.join('\n');
+};
+
+const lapDistance = (points: TrackPointData[]) => {
+  const distances = points.flatMap(point => point.distance !== undefined ? [point.distance] : []);
+  return distances.length > 1 ? Math.round((distances[distances.length - 1] - distances[0]) * 10) / 10 : 0;
+};
+
+const writeLap = (segment: PhaseSegment, points: TrackPointData[], startTime: number, calories: number) => {
+  const heartRates = points.map(point => point.heartRate);
+  const average = heartRates.length > 0 ? Math.round(heartRates.reduce((sum, hr) => sum + hr, 0) / heartRates.length) : 0;
+  const lines = [
+    `      <Lap StartTime="${isoTime(new Date(startTime + segment.start * 1000))}">`,
+    `        <TotalTimeSeconds>${segment.end - segment.start}</TotalTimeSeconds>`,
+    `        <DistanceMeters>${lapDistance(points)}</DistanceMeters>`,
+    `        <Calories>${calories}</Calories>`
+  ];
+  if (heartRates.length > 0) {
+    lines.push(
+      `        <AverageHeartRateBpm><Value>${average}</Value></AverageHeartRateBpm>`,
+      `        <MaximumHeartRateBpm><Value>${Math.max(...heartRates)}</Value></MaximumHeartRateBpm>`
+    );
+  }
+  lines.push(
+    `        <Intensity>${INTENSITY[segment.type]}</Intensity>`,
+    '        <TriggerMethod>Manual</TriggerMethod>',
+    '        <Track>',
+    ...points.map(writeTrackpoint),
+    '        </Track>',
+    '      </Lap>'
+  );
+  return lines.join('\n');
+};
+
+/**
+ * Writes the cleaned heart-rate track as a TCX activity with one lap per
+ * phase, so interval boundaries survive an upload to other platforms.
+ */
+export const writeTCX = (data: TrackPointData[], phases: PhaseSegment[], totalCalories: number) => {
+  if (data.length === 0) throw new Error('No track points to export');
+
+  const startTime = data[0].timestamp.getTime() - data[0].time * 1000;
+  const duration = Math.max(1, data[data.length - 1].time);
+  // TCX requires at least one lap
+  const segments: PhaseSegment[] = phases.length > 0 ? phases : [{ type: 'active', interval: null, start: 0, end: duration }];
+  const laps = segments.map((segment, index) => {
+    const last = index === segments.length - 1;
+    const points = data.filter(point => point.time >= segment.start && (last ? point.time <= segment.end : point.time < segment.end));
+    const calories = Math.round(totalCalories * (segment.end - segment.start) / duration);
+    return writeLap(segment, points, startTime, calories);
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<TrainingCenterDatabase xmlns="${TCX_NAMESPACE}">`,
+    '  <Activities>',
+    '    <Activity Sport="Other">',
+    `      <Id>${isoTime(new Date(startTime))}</Id>`,
+    ...laps,
+    '    </Activity>',
+    '  </Activities>',
+    '</TrainingCenterDatabase>',
+    ''
+  ].join('\n');
+};
@@ -0,0 +1,87 @@
+import type { ActivityImporter } from './index';
+import { parseDate, toTrackPoints, withoutMarkers } from './trackpoints';
+import type { HeartRateSample } from './trackpoints';
+
+const TIME_COLUMN = /^(time|timestamp|date ?time|elapsed|seconds|duration)\b/;
+const HEART_RATE_COLUMN = /heart ?rate|^hr\b|bpm/;
+const DELIMITERS = [',', ';', '\t'];
+
+const splitRow = (line: string, delimiter: string) =>
+  line.split(delimiter).map(cell => cell.trim().replace(/^"(.*)"$/, '$1').trim());
+
+const detectDelimiter = (headerLine: string) =>
+  DELIMITERS.reduce((best, candidate) =>
+    headerLine.split(candidate).length > headerLine.split(best).length ? candidate : best
+  );
+
+const findColumns = (headerLine: string) => {
+  const delimiter = detectDelimiter(headerLine);
+  const header = splitRow(headerLine, delimiter).map(cell => cell.toLowerCase());
+  return {
+    delimiter,
+    timeIndex: header.findIndex(cell => TIME_COLUMN.test(cell)),
+    hrIndex: header.findIndex(cell => HEART_RATE_COLUMN.test(cell))
+  };
+};
+
+// Elapsed seconds as a plain number or as [hh:]mm:ss[.s], otherwise null
+const parseElapsed = (value: string) => {
+  if (/^\d+(\.\d+)?$/.test(value)) return parseFloat(value);
+  const clock = value.match(/^(?:(\d+):)?(\d{1,2}):(\d{1,2}(?:\.\d+)?)$/);
+  if (!clock) return null;
+  return (parseInt(clock[1] ?? '0') * 3600) + (parseInt(clock[2]) * 60) + parseFloat(clock[3]);
+};
+
+const firstLine = (text: string) => text.split(/\r?\n/).find(line => line.trim().length > 0) ?? '';
+
+export const parseCSV = (text: string, fileDate: Date) => {
+  const lines = text.split(/\r?\n/).filter(line => line.trim().length > 0);
+  if (lines.length < 2) {
+    throw new Error('CSV file has no data rows below the header.');
+  }
+
+  const { delimiter, timeIndex, hrIndex } = findColumns(lines[0]);
+  if (hrIndex < 0) {
+    throw new Error('No heart rate column found in CSV header. Name it "Heart Rate", "HR" or "bpm".');
+  }
+  if (timeIndex < 0) {
+    throw new Error('No time column found in CSV header. Name it "Time", "Timestamp" or "Elapsed" (seconds or hh:mm:ss).');
+  }
+
+  // Rower exports carry elapsed time only; anchor those to the file date
+  const samples: HeartRateSample[] = [];
+  let unreadableTimes = 0;
+  lines.slice(1).forEach(line => {
+    const cells = splitRow(line, delimiter);
+    const timeText = cells[timeIndex] ?? '';
+    const elapsed = parseElapsed(timeText);
+    const timestamp = elapsed !== null ? new Date(fileDate.getTime() + elapsed * 1000) : parseDate(timeText);
+    if (!timestamp) {
+      unreadableTimes++;
+      return;
+    }
+    samples.push({ timestamp, heartRate: Math.round(parseFloat(cells[hrIndex] ?? '')) });
+  });
+
+  if (samples.length === 0 && unreadableTimes > 0) {
+    throw new Error(`Could not read any values in the CSV time column (${unreadableTimes} rows skipped).`);
+  }
+
+  const data = toTrackPoints(samples);
+  if (data.length === 0) {
+    throw new Error('CSV heart rate column contains no values between 1 and 219 bpm.');
+  }
+  return data;
+};
+
+export const csvImporter: ActivityImporter = {
+  format: 'csv',
+  label: 'CSV',
+  extensions: ['.csv'],
+  sniff: ({ text }) => {
+    if (text === null) return false;
+    const { timeIndex, hrIndex } = findColumns(firstLine(text));
+    return timeIndex >= 0 && hrIndex >= 0;
+  },
+  parse: ({ text, lastModified }) => withoutMarkers(parseCSV(text ?? '', new Date(lastModified)))
+};
@@ -0,0 +1,187 @@
+import type { ChannelKey, ParsedActivity, SensorChannels } from '../types';
+import type { ActivityImporter } from './index';
+import { toBeatIntervals, toTrackPoints, withoutMarkers } from './trackpoints';
+import type { BeatSample, HeartRateSample } from './trackpoints';
+
+// FIT timestamps count seconds from 1989-12-31T00:00:00Z
+const FIT_EPOCH_MS = 631065600 * 1000;
+const RECORD_MESSAGE = 20;
+const TIMESTAMP_FIELD = 253;
+const HEART_RATE_FIELD = 3;
+// HRV messages carry an array of RR intervals in 1/1000 s
+const HRV_MESSAGE = 78;
+const HRV_TIME_FIELD = 0;
+
+// Record fields for the other sensor channels, stored as (value + offset) * scale
+const CHANNEL_FIELDS: Record<number, { channel: ChannelKey; scale: number; offset: number }> = {
+  2: { channel: 'altitude', scale: 5, offset: 500 },
+  4: { channel: 'cadence', scale: 1, offset: 0 },
+  5: { channel: 'distance', scale: 100, offset: 0 },
+  6: { channel: 'speed', scale: 1000, offset: 0 },
+  7: { channel: 'power', scale: 1, offset: 0 }
+};
+
+// All bits set marks an invalid value for unsigned FIT types
+const isInvalid = (value: number, size: number) => value === 2 ** (size * 8) - 1;
+
+interface FieldDefinition {
+  number: number;
+  size: number;
+}
+
+interface MessageDefinition {
+  globalNumber: number;
+  littleEndian: boolean;
+  fields: FieldDefinition[];
+  developerDataSize: number;
+}
+
+const hasFitSignature = (bytes: Uint8Array) =>
+  bytes.length >= 12 && bytes[8] === 0x2e && bytes[9] === 0x46 && bytes[10] === 0x49 && bytes[11] === 0x54;
+
+const readField = (view: DataView, offset: number, size: number, littleEndian: boolean) => {
+  switch (size) {
+    case 1: return view.getUint8(offset);
+    case 2: return view.getUint16(offset, littleEndian);
+    case 4: return view.getUint32(offset, littleEndian);
+    default: return null;
+  }
+};
+
+/**
+ * Decodes the record and HRV messages of a FIT activity. Only the timestamp,
+ * heart rate, sensor channel and RR fields are read; every other message and
+ * field is skipped by size. HRV messages have no timestamp of their own, so
+ * their beats take the time of the last message that had one.
+ */
+export const parseFIT = (buffer: ArrayBuffer): ParsedActivity => {
+  const bytes = new Uint8Array(buffer);
+  if (!hasFitSignature(bytes)) {
+    throw new Error('Missing ".FIT" signature in the file header. The file may be corrupt or not a FIT activity.');
+  }
+
+  const view = new DataView(buffer);
+  const samples: HeartRateSample[] = [];
+  const beats: BeatSample[] = [];
+  let recordCount = 0;
+  let fileOffset = 0;
+
+  // FIT files may be chained: header, records and CRC repeated back to back
+  while (fileOffset + 12 <= bytes.length && hasFitSignature(bytes.subarray(fileOffset))) {
+    const headerSize = view.getUint8(fileOffset);
+    const dataSize = view.getUint32(fileOffset + 4, true);
+    const end = fileOffset + headerSize + dataSize;
+    if (end > bytes.length) {
+      throw new Error(`FIT file is truncated: header announces ${dataSize} bytes of records but only ${bytes.length - fileOffset - headerSize} are present.`);
+    }
+
+    const definitions = new Map<number, MessageDefinition>();
+    let lastTimestamp: number | null = null;
+    let offset = fileOffset + headerSize;
+
+    while (offset < end) {
+      const recordHeader = view.getUint8(offset++);
+      let localType: number;
+      let compressedOffset: number | null = null;
+
+      if (recordHeader & 0x80) {
+        // Compressed timestamp header: always a data message
+        localType = (recordHeader >> 5) & 0x03;
+        compressedOffset = recordHeader & 0x1f;
+      } else if (recordHeader & 0x40) {
+        localType = recordHeader & 0x0f;
+        const hasDeveloperData = (recordHeader & 0x20) !== 0;
+        const littleEndian = view.getUint8(offset + 1) === 0;
+        const globalNumber = view.getUint16(offset + 2, littleEndian);
+        const fieldCount = view.getUint8(offset + 4);
+        offset += 5;
+
+        const fields: FieldDefinition[] = [];
+        for (let i = 0; i < fieldCount; i++) {
+          fields.push({ number: view.getUint8(offset), size: view.getUint8(offset + 1) });
+          offset += 3;
+        }
+
+        let developerDataSize = 0;
+        if (hasDeveloperData) {
+          const developerFieldCount = view.getUint8(offset++);
+          for (let i = 0; i < developerFieldCount; i++) {
+            developerDataSize += view.getUint8(offset + 1);
+            offset += 3;
+          }
+        }
+
+        definitions.set(localType, { globalNumber, littleEndian, fields, developerDataSize });
+        continue;
+      } else {
+        localType = recordHeader & 0x0f;
+      }
+
+      const definition = definitions.get(localType);
+      if (!definition) {
+        throw new Error(`FIT data message at byte ${offset - 1} uses local type ${localType} before it is defined.`);
+      }
+
+      let timestamp: number | null = null;
+      let heartRate: number | null = null;
+      const channels: SensorChannels = {};
+      const rrValues: number[] = [];
+      for (const field of definition.fields) {
+        if (field.number === TIMESTAMP_FIELD) {
+          timestamp = readField(view, offset, field.size, definition.littleEndian);
+        } else if (field.number === HEART_RATE_FIELD && definition.globalNumber === RECORD_MESSAGE) {
+          heartRate = readField(view, offset, field.size, definition.littleEndian);
+        } else if (field.number in CHANNEL_FIELDS && definition.globalNumber === RECORD_MESSAGE) {
+          const value = readField(view, offset, field.size, definition.littleEndian);
+          const { channel, scale, offset: valueOffset } = CHANNEL_FIELDS[field.number];
+          if (value !== null && !isInvalid(value, field.size)) channels[channel] = value / scale - valueOffset;
+        } else if (field.number === HRV_TIME_FIELD && definition.globalNumber === HRV_MESSAGE) {
+          for (let i = 0; i + 1 < field.size; i += 2) {
+            const value = view.getUint16(offset + i, definition.littleEndian);
+            if (!isInvalid(value, 2)) rrValues.push(value);
+          }
+        }
+        offset += field.size;
+      }
+      offset += definition.developerDataSize;
+
+      if (compressedOffset !== null && lastTimestamp !== null) {
+        const lowBits: number = lastTimestamp & 0x1f;
+        timestamp = lastTimestamp - lowBits + compressedOffset + (compressedOffset >= lowBits ? 0 : 0x20);
+      }
+      if (timestamp !== null) lastTimestamp = timestamp;
+
+      if (definition.globalNumber === HRV_MESSAGE && lastTimestamp !== null) {
+        const beatTime = new Date(FIT_EPOCH_MS + lastTimestamp * 1000);
+        beats.push(...rrValues.map(rr => ({ timestamp: beatTime, rr })));
+      }
+      if (definition.globalNumber === RECORD_MESSAGE) {
+        recordCount++;
+        if (timestamp !== null && heartRate !== null && heartRate !== 0xff) {
+          samples.push({ ...channels, timestamp: new Date(FIT_EPOCH_MS + timestamp * 1000), heartRate });
+        }
+      }
+    }
+
+    fileOffset = end + 2; // skip the file CRC
+  }
+
+  if (recordCount === 0) {
+    throw new Error('FIT file contains no record messages. Only activity files (not courses, workouts or settings) can be analyzed.');
+  }
+
+  const data = toTrackPoints(samples);
+  if (data.length === 0) {
+    throw new Error(`None of the ${recordCount} FIT records carry heart rate. Check that an HR sensor was paired during the activity.`);
+  }
+  const rrIntervals = toBeatIntervals(beats, data);
+  return { ...withoutMarkers(data), ...(rrIntervals.length > 0 && { rrIntervals }) };
+};
+
+export const fitImporter: ActivityImporter = {
+  format: 'fit',
+  label: 'FIT',
+  extensions: ['.fit'],
+  sniff: ({ bytes }) => hasFitSignature(bytes),
+  parse: ({ buffer }) => parseFIT(buffer)
+};
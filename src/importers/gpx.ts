@@ -0,0 +1,52 @@
+import type { ActivityImporter } from './index';
+import { parseDate, toTrackPoints, withoutMarkers } from './trackpoints';
+import type { HeartRateSample } from './trackpoints';
+import { XmlParseError, descendants, firstDescendant, parseXml } from '../utils/xml';
+import type { XmlElement } from '../utils/xml';
+
+export const parseGPX = (xmlText: string) => {
+  let root: XmlElement;
+  try {
+    root = parseXml(xmlText);
+  } catch (error) {
+    if (error instanceof XmlParseError) throw new Error('Invalid GPX XML: ' + error.message);
+    throw error;
+  }
+
+  const trackpoints = descendants(root, 'trkpt');
+  if (trackpoints.length === 0) {
+    throw new Error('No track points (<trkpt>) found. Routes and waypoints-only GPX files cannot be analyzed.');
+  }
+
+  const samples: HeartRateSample[] = [];
+  let timedPoints = 0;
+  trackpoints.forEach(point => {
+    const time = parseDate(firstDescendant(point, 'time')?.text.trim() ?? null);
+    if (!time) return;
+    timedPoints++;
+
+    // Heart rate lives in the Garmin TrackPointExtension (<gpxtpx:hr>), whatever prefix the exporter picked
+    const hrElement = firstDescendant(point, 'hr') ?? firstDescendant(point, 'heartrate');
+    if (hrElement?.text.trim()) {
+      samples.push({ timestamp: time, heartRate: parseInt(hrElement.text) });
+    }
+  });
+
+  if (timedPoints === 0) {
+    throw new Error('GPX track points have no <time> elements, so heart rate cannot be placed on a timeline.');
+  }
+
+  const data = toTrackPoints(samples);
+  if (data.length === 0) {
+    throw new Error('No heart rate found in GPX track points. Export with the Garmin TrackPointExtension (<gpxtpx:hr>) enabled.');
+  }
+  return data;
+};
+
+export const gpxImporter: ActivityImporter = {
+  format: 'gpx',
+  label: 'GPX',
+  extensions: ['.gpx'],
+  sniff: ({ text }) => text !== null && /<gpx[\s>]/.test(text),
+  parse: ({ text }) => withoutMarkers(parseGPX(text ?? ''))
+};
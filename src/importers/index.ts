@@ -0,0 +1,94 @@
+import type { ParsedActivity } from '../types';
+import { csvImporter } from './csv';
+import { fitImporter } from './fit';
+import { gpxImporter } from './gpx';
+import { rrImporter } from './rr';
+import { tcxImporter } from './tcx';
+
+export interface ImportSource {
+  buffer: ArrayBuffer;
+  bytes: Uint8Array;
+  // Decoded text, or null when the content is binary
+  text: string | null;
+  fileName: string;
+  lastModified: number;
+}
+
+export interface ActivityImporter {
+  format: string;
+  label: string;
+  extensions: string[];
+  sniff: (source: ImportSource) => boolean;
+  parse: (source: ImportSource) => ParsedActivity;
+}
+
+export class ActivityImportError extends Error {
+  format: string | null;
+
+  constructor(message: string, format: string | null) {
+    super(message);
+    this.name = 'ActivityImportError';
+    this.format = format;
+  }
+}
+
+// Binary formats first so their payload is never mistaken for text. RR lists and
+// CSV exports saved as .txt are still recognised by content when dropped on their own
+export const importers: ActivityImporter[] = [fitImporter, tcxImporter, gpxImporter, rrImporter, csvImporter];
+
+export const acceptedExtensions = importers.flatMap(importer => importer.extensions).join(',');
+
+// Used to pick activity files out of dropped folders; single files are sniffed regardless of name
+export const hasActivityExtension = (fileName: string) => {
+  const name = fileName.toLowerCase();
+  return !name.startsWith('.') && importers.some(importer => importer.extensions.some(ext => name.endsWith(ext)));
+};
+
+const decodeText = (bytes: Uint8Array) => {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    return null;
+  }
+};
+
+export const sniffImporter = (source: ImportSource) =>
+  importers.find(importer => importer.sniff(source)) ?? null;
+
+/**
+ * Parses the raw bytes of an activity file with the importer whose sniffer
+ * recognises the content. The file name is only used in messages; the
+ * extension is not consulted. `lastModified` dates formats that hold elapsed
+ * time only. Works outside the browser.
+ */
+export const parseActivityFile = (bytes: Uint8Array, fileName: string, lastModified: number): ParsedActivity => {
+  const buffer = bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+  const source: ImportSource = {
+    buffer,
+    bytes,
+    text: decodeText(bytes),
+    fileName,
+    lastModified
+  };
+
+  const importer = sniffImporter(source);
+  if (!importer) {
+    throw new ActivityImportError(
+      `"${fileName}" is not a recognised activity file. Supported formats: ${importers.map(i => i.label).join(', ')}.`,
+      null
+    );
+  }
+
+  try {
+    return importer.parse(source);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new ActivityImportError(`${importer.label} import failed: ${message}`, importer.format);
+  }
+};
+
+// Reads a browser File and parses it with parseActivityFile
+export const importActivity = async (file: File): Promise<ParsedActivity> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  return parseActivityFile(bytes, file.name, file.lastModified);
+};
@@ -0,0 +1,73 @@
+import type { BeatInterval, ParsedActivity } from '../types';
+import type { ActivityImporter } from './index';
+import { isValidRR, toTrackPoints, withoutMarkers } from './trackpoints';
+import type { HeartRateSample } from './trackpoints';
+
+// Polar, Elite HRV and Kubios write one interval per line, sometimes under a one-word header
+const NUMBER_LINE = /^\d+(\.\d+)?$/;
+const MIN_BEATS = 20;
+
+const valueLines = (text: string) => {
+  const lines = text.split(/\r?\n/).map(line => line.trim()).filter(line => line.length > 0);
+  return lines.length > 0 && !NUMBER_LINE.test(lines[0]) ? lines.slice(1) : lines;
+};
+
+// Exports give milliseconds or seconds; no RR interval is 3 s or longer
+const toMilliseconds = (value: number) => value < 3 ? value * 1000 : value;
+
+/**
+ * Reads a plain list of RR intervals. The file is written when the recording
+ * stops, so the beats are laid end to end backwards from the file date, and
+ * the heart rate track is the mean instantaneous rate of the beats ending in
+ * each second.
+ */
+export const parseRR = (text: string, fileDate: Date): ParsedActivity => {
+  const lines = valueLines(text);
+  const unreadable = lines.filter(line => !NUMBER_LINE.test(line)).length;
+  if (unreadable > 0) {
+    throw new Error(`RR file has ${unreadable} lines that are not a single interval value.`);
+  }
+
+  const rrIntervals: BeatInterval[] = [];
+  let elapsed = 0;
+  for (const line of lines) {
+    const rr = toMilliseconds(parseFloat(line));
+    // Keep the clock running through corrupt values so later beats stay in place
+    elapsed += Math.min(rr, 2000) / 1000;
+    if (isValidRR(rr)) rrIntervals.push({ time: elapsed, rr: Math.round(rr) });
+  }
+  if (rrIntervals.length < MIN_BEATS) {
+    throw new Error(`RR file holds ${rrIntervals.length} plausible intervals; at least ${MIN_BEATS} are needed.`);
+  }
+
+  const startTime = fileDate.getTime() - elapsed * 1000;
+  const rates = new Map<number, number[]>();
+  for (const beat of rrIntervals) {
+    const second = Math.floor(beat.time);
+    rates.set(second, [...(rates.get(second) ?? []), 60000 / beat.rr]);
+  }
+  const samples: HeartRateSample[] = [...rates].map(([second, values]) => ({
+    timestamp: new Date(startTime + second * 1000),
+    heartRate: Math.round(values.reduce((sum, value) => sum + value, 0) / values.length)
+  }));
+
+  // Beats keep the elapsed clock of the first heart rate sample
+  const points = toTrackPoints(samples);
+  const offset = Math.floor(rrIntervals[0].time);
+  return {
+    ...withoutMarkers(points),
+    rrIntervals: rrIntervals.map(beat => ({ ...beat, time: Math.round((beat.time - offset) * 1000) / 1000 }))
+  };
+};
+
+export const rrImporter: ActivityImporter = {
+  format: 'rr',
+  label: 'RR intervals',
+  extensions: ['.rr', '.hrv'],
+  sniff: ({ text }) => {
+    if (text === null) return false;
+    const lines = valueLines(text);
+    return lines.length >= MIN_BEATS && lines.slice(0, 50).every(line => NUMBER_LINE.test(line));
+  },
+  parse: ({ text, lastModified }) => parseRR(text ?? '', new Date(lastModified))
+};
@@ -0,0 +1,142 @@
+import type { ActivityLap, ActivityPause, ChannelKey, LapIntensity, ParsedActivity, SensorChannels } from '../types';
+import type { ActivityImporter } from './index';
+import { parseDate, toBeatIntervals, toTrackPoints } from './trackpoints';
+import type { BeatSample, HeartRateSample } from './trackpoints';
+import { XmlParseError, child, descendants, firstDescendant, parseXml } from '../utils/xml';
+import type { XmlElement } from '../utils/xml';
+
+const elapsedSeconds = (date: Date, start: Date) => Math.max(0, Math.floor((date.getTime() - start.getTime()) / 1000));
+
+const childText = (element: XmlElement, localName: string) => child(element, localName)?.text.trim() ?? null;
+
+// Some exporters write values as a value attribute instead of element text
+const valueOf = (element: XmlElement) => element.text.trim() || element.attributes.value || '';
+
+// Trackpoint children and TPX extension values that map onto sensor channels
+const TCX_CHANNELS: [ChannelKey, string][] = [
+  ['distance', 'DistanceMeters'],
+  ['altitude', 'AltitudeMeters'],
+  ['cadence', 'Cadence'],
+  ['speed', 'Speed'],
+  ['power', 'Watts']
+];
+
+const parseChannels = (point: XmlElement) => {
+  const channels: SensorChannels = {};
+  const numberOf = (localName: string) => {
+    const element = firstDescendant(point, localName);
+    return element ? parseFloat(element.text) : NaN;
+  };
+  for (const [channel, localName] of TCX_CHANNELS) {
+    const value = numberOf(localName);
+    if (!isNaN(value)) channels[channel] = value;
+  }
+  // Running watches report cadence in the TPX extension instead
+  const runCadence = numberOf('RunCadence');
+  if (channels.cadence === undefined && !isNaN(runCadence)) channels.cadence = runCadence;
+  return channels;
+};
+
+// HRV extensions list the beats of a trackpoint in one element, in ms or seconds
+const RR_ELEMENTS = ['RR', 'RRInterval', 'RRIntervals', 'HRV'];
+
+const parseBeats = (point: XmlElement) =>
+  RR_ELEMENTS.flatMap(localName => descendants(point, localName))
+    // A list element may wrap one element per beat; only the innermost hold values
+    .filter(element => element.children.length === 0)
+    .flatMap(element => valueOf(element).split(/[\s,;]+/))
+    .map(parseFloat)
+    .filter(value => !isNaN(value))
+    .map(value => value < 3 ? value * 1000 : value);
+
+const parseLaps = (root: XmlElement, start: Date): ActivityLap[] => {
+  const laps: ActivityLap[] = [];
+  for (const lap of descendants(root, 'Lap')) {
+    const startTime = parseDate(lap.attributes.StartTime ?? null);
+    if (!startTime) continue;
+    const intensity = childText(lap, 'Intensity')?.toLowerCase();
+    laps.push({
+      start: elapsedSeconds(startTime, start),
+      intensity: intensity === 'active' || intensity === 'resting' ? intensity as LapIntensity : null
+    });
+  }
+  return laps;
+};
+
+// Devices start a new Track when the recording is paused, so a break between
+// tracks clearly longer than the usual sample interval is a pause
+const parsePauses = (root: XmlElement, start: Date): ActivityPause[] => {
+  const tracks = descendants(root, 'Track')
+    .map(track => descendants(track, 'Time')
+      .map(time => parseDate(time.text.trim()))
+      .filter((date): date is Date => date !== null))
+    .filter(times => times.length > 0);
+
+  const intervals = tracks.flatMap(times => times.slice(1).map((time, i) => (time.getTime() - times[i].getTime()) / 1000))
+    .sort((a, b) => a - b);
+  const typicalInterval = intervals.length > 0 ? intervals[Math.floor(intervals.length / 2)] : 1;
+  const minPause = Math.max(2, typicalInterval * 2);
+
+  const pauses: ActivityPause[] = [];
+  for (let i = 1; i < tracks.length; i++) {
+    const before = tracks[i - 1][tracks[i - 1].length - 1];
+    const after = tracks[i][0];
+    if ((after.getTime() - before.getTime()) / 1000 > minPause) {
+      pauses.push({ start: elapsedSeconds(before, start), end: elapsedSeconds(after, start) });
+    }
+  }
+  return pauses;
+};
+
+export const parseTCX = (xmlText: string): ParsedActivity => {
+  let root: XmlElement;
+  try {
+    root = parseXml(xmlText);
+  } catch (error) {
+    if (error instanceof XmlParseError) throw new Error('Invalid XML format: ' + error.message);
+    throw error;
+  }
+
+  // Element names are matched without namespace prefix and case
+  const trackpoints = descendants(root, 'Trackpoint');
+  if (trackpoints.length === 0) {
+    throw new Error('No trackpoints found in TCX file. Please ensure this is a valid activity file.');
+  }
+
+  const samples: HeartRateSample[] = [];
+  const beats: BeatSample[] = [];
+  trackpoints.forEach(point => {
+    const timeElement = firstDescendant(point, 'Time');
+    const bpmElement = firstDescendant(point, 'HeartRateBpm');
+    const hrElement = (bpmElement && firstDescendant(bpmElement, 'Value')) ||
+                      firstDescendant(point, 'hr') ||
+                      firstDescendant(point, 'HeartRate');
+
+    const time = timeElement && parseDate(valueOf(timeElement));
+    if (!time) return;
+    if (hrElement) samples.push({ ...parseChannels(point), timestamp: time, heartRate: parseInt(valueOf(hrElement)) });
+    beats.push(...parseBeats(point).map(rr => ({ timestamp: time, rr })));
+  });
+
+  const data = toTrackPoints(samples);
+
+  if (data.length === 0) {
+    throw new Error('No valid heart rate data found. Please check that your TCX file contains heart rate measurements.');
+  }
+
+  const start = data[0].timestamp;
+  const laps = parseLaps(root, start);
+  const pauses = parsePauses(root, start);
+
+  const rrIntervals = toBeatIntervals(beats, data);
+
+  return { points: data, laps, pauses, ...(rrIntervals.length > 0 && { rrIntervals }) };
+};
+
+export const tcxImporter: ActivityImporter = {
+  format: 'tcx',
+  label: 'TCX',
+  extensions: ['.tcx'],
+  sniff: ({ text }) => text !== null && /<TrainingCenterDatabase[\s>]/.test(text),
+  parse: ({ text }) => parseTCX(text ?? '')
+};
@@ -0,0 +1,54 @@
+import type { BeatInterval, ParsedActivity, SensorChannels, TrackPointData } from '../types';
+
+export interface HeartRateSample extends SensorChannels {
+  timestamp: Date;
+  heartRate: number;
+}
+
+// Same plausibility window the TCX parser has always applied
+export const isValidHeartRate = (heartRate: number) => !isNaN(heartRate) && heartRate > 0 && heartRate < 220;
+
+export const parseDate = (dateStr: string | null) => {
+  // Handle different date formats in activity files
+  if (!dateStr) return null;
+  const date = new Date(dateStr);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+// Converts absolute samples into elapsed-time track points, sorted by time
+export const toTrackPoints = (samples: HeartRateSample[]): TrackPointData[] => {
+  const valid = samples
+    .filter(sample => isValidHeartRate(sample.heartRate) && !isNaN(sample.timestamp.getTime()))
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  if (valid.length === 0) return [];
+
+  const startTime = valid[0].timestamp.getTime();
+  return valid.map(({ timestamp, heartRate, ...channels }) => ({
+    ...channels,
+    time: Math.floor((timestamp.getTime() - startTime) / 1000),
+    heartRate,
+    timestamp
+  }));
+};
+
+// RR interval in milliseconds, stamped with the time of the sample that carried it
+export interface BeatSample {
+  timestamp: Date;
+  rr: number;
+}
+
+// Widest RR range a human heart produces (30-300 bpm); anything else is a corrupt value
+export const isValidRR = (rr: number) => !isNaN(rr) && rr >= 200 && rr <= 2000;
+
+// Places beats on the elapsed clock of the track points, dropping impossible values
+export const toBeatIntervals = (beats: BeatSample[], points: TrackPointData[]): BeatInterval[] => {
+  if (points.length === 0) return [];
+  const startTime = points[0].timestamp.getTime();
+  return beats
+    .filter(beat => isValidRR(beat.rr) && beat.timestamp.getTime() >= startTime)
+    .map(beat => ({ time: (beat.timestamp.getTime() - startTime) / 1000, rr: Math.round(beat.rr) }))
+    .sort((a, b) => a.time - b.time);
+};
+
+// For formats that carry no lap or pause information
+export const withoutMarkers = (points: TrackPointData[]): ParsedActivity => ({ points, laps: [], pauses: [] });
@@ -0,0 +1,46 @@
+// Audible, spoken and haptic cues for phase changes during live recording
+
+let audio: AudioContext | null = null;
+
+const beep = (frequency: number, seconds: number) => {
+  try {
+    audio ??= new AudioContext();
+    const oscillator = audio.createOscillator();
+    const gain = audio.createGain();
+    oscillator.frequency.value = frequency;
+    gain.gain.setValueAtTime(0.2, audio.currentTime);
+    gain.gain.exponentialRampToValueAtTime(0.001, audio.currentTime + seconds);
+    oscillator.connect(gain).connect(audio.destination);
+    oscillator.start();
+    oscillator.stop(audio.currentTime + seconds);
+  } catch (error) {
+    console.error('Audio cue failed:', error);
+  }
+};
+
+const speak = (text: string) => {
+  if (!('speechSynthesis' in window)) return;
+  window.speechSynthesis.cancel();
+  window.speechSynthesis.speak(new SpeechSynthesisUtterance(text));
+};
+
+// Browsers only allow audio after a user gesture, so call this from the start button
+export const unlockCues = () => {
+  audio ??= new AudioContext();
+  if (audio.state === 'suspended') audio.resume();
+};
+
+// Short tick for the last seconds of a phase
+export const countdownCue = () => beep(660, 0.12);
+
+export const phaseCue = (name: string, work: boolean) => {
+  beep(work ? 990 : 520, 0.4);
+  navigator.vibrate?.(work ? [200, 100, 200] : 300);
+  speak(name);
+};
+
+export const finishCue = () => {
+  beep(880, 0.6);
+  navigator.vibrate?.([300, 150, 300, 150, 300]);
+  speak('Workout complete');
+};
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { parseHeartRateMeasurement } from './heartRateMonitor';
+
+const measurement = (...bytes: number[]) => parseHeartRateMeasurement(new DataView(new Uint8Array(bytes).buffer));
+
+describe('heart rate measurement', () => {
+  it('reads an 8 or 16 bit heart rate', () => {
+    expect(measurement(0x00, 72)).toEqual({ heartRate: 72, rrIntervals: [], contact: true });
+    expect(measurement(0x01, 0x2c, 0x01)).toMatchObject({ heartRate: 300 });
+  });
+
+  it('skips the energy field and converts RR intervals from 1/1024 s', () => {
+    // 1024 and 768 ticks after 500 kJ of energy expended
+    expect(measurement(0x18, 90, 0xf4, 0x01, 0x00, 0x04, 0x00, 0x03).rrIntervals).toEqual([1000, 750]);
+    expect(measurement(0x11, 90, 0x00, 0x00, 0x04).rrIntervals).toEqual([1000]);
+  });
+
+  it('reports lost contact only when the sensor supports it', () => {
+    expect(measurement(0x04, 0).contact).toBe(false);
+    expect(measurement(0x06, 65).contact).toBe(true);
+  });
+});
@@ -0,0 +1,136 @@
+// Heart-rate sources for live recording: Bluetooth straps and a simulated one
+
+// One notification from a heart-rate sensor
+export interface HeartRateReading {
+  timestamp: Date;
+  heartRate: number;
+  // Beat-to-beat intervals in milliseconds, when the sensor reports them
+  rrIntervals: number[];
+}
+
+export interface HeartRateMonitor {
+  name: string;
+  // Resolves once the sensor is connected and notifying; may be called again after a disconnect
+  start: (onReading: (reading: HeartRateReading) => void, onDisconnect: () => void) => Promise<void>;
+  stop: () => void;
+}
+
+export class HeartRateMonitorError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'HeartRateMonitorError';
+  }
+}
+
+// Bluetooth SIG assigned numbers
+export const HEART_RATE_SERVICE = 0x180d;
+export const HEART_RATE_MEASUREMENT = 0x2a37;
+
+export interface HeartRateMeasurement {
+  heartRate: number;
+  rrIntervals: number[];
+  // False when the strap reports it has lost skin contact
+  contact: boolean;
+}
+
+/**
+ * Decodes a Heart Rate Measurement characteristic value. Flags bit 0 selects
+ * an 8 or 16 bit heart rate, bits 1-2 carry sensor contact, bit 3 adds an
+ * energy expended field and bit 4 appends RR intervals in 1/1024 s.
+ */
+export const parseHeartRateMeasurement = (view: DataView): HeartRateMeasurement => {
+  const flags = view.getUint8(0);
+  const wideHeartRate = (flags & 0x01) !== 0;
+  const heartRate = wideHeartRate ? view.getUint16(1, true) : view.getUint8(1);
+  let offset = wideHeartRate ? 3 : 2;
+  if (flags & 0x08) offset += 2;
+
+  const rrIntervals: number[] = [];
+  if (flags & 0x10) {
+    for (; offset + 1 < view.byteLength; offset += 2) {
+      rrIntervals.push(Math.round(view.getUint16(offset, true) * 1000 / 1024));
+    }
+  }
+
+  // Contact status is only meaningful when the sensor supports it (bit 2)
+  const contact = (flags & 0x04) === 0 || (flags & 0x02) !== 0;
+  return { heartRate, rrIntervals, contact };
+};
+
+// Web Bluetooth, not yet part of the TypeScript DOM types
+interface BluetoothCharacteristic extends EventTarget {
+  value: DataView | null;
+  startNotifications: () => Promise<BluetoothCharacteristic>;
+}
+
+interface BluetoothService {
+  getCharacteristic: (characteristic: number) => Promise<BluetoothCharacteristic>;
+}
+
+interface BluetoothServer {
+  connected: boolean;
+  getPrimaryService: (service: number) => Promise<BluetoothService>;
+  disconnect: () => void;
+}
+
+interface BluetoothDevice extends EventTarget {
+  name?: string;
+  gatt?: { connect: () => Promise<BluetoothServer> };
+}
+
+interface Bluetooth {
+  requestDevice: (options: { filters: { services: number[] }[] }) => Promise<BluetoothDevice>;
+}
+
+declare global {
+  interface Navigator {
+    bluetooth?: Bluetooth;
+  }
+}
+
+export const bluetoothAvailable = () => typeof navigator !== 'undefined' && navigator.bluetooth !== undefined;
+
+/**
+ * Asks the user to pick a strap advertising the Heart Rate Service. Must be
+ * called from a click or key handler, as browsers only show the chooser then.
+ */
+export const requestBluetoothMonitor = async (): Promise<HeartRateMonitor> => {
+  if (!navigator.bluetooth) {
+    throw new HeartRateMonitorError('Web Bluetooth is not available in this browser. Use Chrome or Edge over HTTPS, or the simulated strap.');
+  }
+  const device = await navigator.bluetooth.requestDevice({ filters: [{ services: [HEART_RATE_SERVICE] }] });
+  if (!device.gatt) throw new HeartRateMonitorError(`${device.name ?? 'The device'} does not accept connections.`);
+  const gatt = device.gatt;
+
+  let server: BluetoothServer | null = null;
+  let detach = () => {};
+
+  return {
+    name: device.name ?? 'Heart rate strap',
+    start: async (onReading, onDisconnect) => {
+      detach();
+      server = await gatt.connect();
+      const service = await server.getPrimaryService(HEART_RATE_SERVICE);
+      const characteristic = await service.getCharacteristic(HEART_RATE_MEASUREMENT);
+
+      const handleValue = () => {
+        if (!characteristic.value) return;
+        const measurement = parseHeartRateMeasurement(characteristic.value);
+        // Straps send zero or stale values without skin contact
+        if (!measurement.contact || measurement.heartRate === 0) return;
+        onReading({ timestamp: new Date(), heartRate: measurement.heartRate, rrIntervals: measurement.rrIntervals });
+      };
+      characteristic.addEventListener('characteristicvaluechanged', handleValue);
+      device.addEventListener('gattserverdisconnected', onDisconnect);
+      detach = () => {
+        characteristic.removeEventListener('characteristicvaluechanged', handleValue);
+        device.removeEventListener('gattserverdisconnected', onDisconnect);
+      };
+      await characteristic.startNotifications();
+    },
+    stop: () => {
+      detach();
+      if (server?.connected) server.disconnect();
+    }
+  };
+};
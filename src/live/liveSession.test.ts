@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_PARAMS } from '../analysis/session';
+import { INITIAL_CUES, appendPoint, dueCue, finishedWindows, liveSchedule, phaseName, phaseProgress, scheduleLaps } from './liveSession';
+import type { CueState } from './liveSession';
+
+// 5 min warmup, then 2 min work / 2 min recovery from 300 s
+const schedule = liveSchedule(DEFAULT_PARAMS);
+
+describe('live phase timer', () => {
+  it('finds the running phase and the time left in it', () => {
+    expect(phaseProgress(schedule, 0)).toMatchObject({ current: { type: 'warmup' }, next: { type: 'active' }, remaining: 300 });
+    expect(phaseProgress(schedule, 419)).toMatchObject({ current: { type: 'active', interval: 1 }, remaining: 1 });
+    expect(phaseProgress(schedule, schedule.duration)).toEqual({ current: null, next: null, remaining: 0 });
+    expect(phaseName(schedule, schedule.phases[1])).toBe('Interval 1');
+  });
+
+  it('keeps one point per second', () => {
+    const point = (time: number, heartRate: number) => ({ time, heartRate, timestamp: new Date(time * 1000) });
+    const points = appendPoint(appendPoint(appendPoint([], point(0, 90)), point(1, 92)), point(1, 95));
+    expect(points.map(({ time, heartRate }) => [time, heartRate])).toEqual([[0, 90], [1, 95]]);
+  });
+
+  it('laps the recording at each planned phase', () => {
+    expect(scheduleLaps(schedule, 430)).toEqual([
+      { start: 0, intensity: 'resting' },
+      { start: 300, intensity: 'active' },
+      { start: 420, intensity: 'resting' }
+    ]);
+  });
+
+  it('scores only the intervals whose recovery is over', () => {
+    expect(finishedWindows(schedule, 539)).toEqual([]);
+    expect(finishedWindows(schedule, 540)).toEqual([{ start: 300, activeEnd: 420, recoveryEnd: 540 }]);
+  });
+});
+
+describe('live cues', () => {
+  // Plays the readings in order, repeating a second as a sensor sometimes does
+  const cuesFor = (times: number[]) => {
+    let cues: CueState = INITIAL_CUES;
+    return times.map(time => {
+      const due = dueCue(schedule, time, cues);
+      cues = due.cues;
+      return due.cue && (due.cue.kind === 'phase' ? due.cue.segment.type : due.cue.kind);
+    });
+  };
+
+  it('announces each phase once and counts down the last seconds before it', () => {
+    expect(cuesFor([0, 1, 296, 297, 297, 298, 299, 300, 301])).toEqual([
+      'warmup', null, null, 'countdown', null, 'countdown', 'countdown', 'active', null
+    ]);
+  });
+
+  it('announces the running phase when the first reading arrives late', () => {
+    expect(cuesFor([425])).toEqual(['recovery']);
+  });
+});
@@ -0,0 +1,117 @@
+import type { ActivityLap, BeatInterval, TrackPointData, TrainingParams } from '../types';
+import type { IntervalWindow } from '../analysis/intervalDetection';
+import { sessionPhases } from '../analysis/phases';
+import type { PhaseSegment, PhaseType } from '../analysis/phases';
+import { plannedDuration, plannedLayout } from '../analysis/plans';
+import { isValidRR } from '../importers/trackpoints';
+import type { PlanLayout } from '../analysis/plans';
+import type { HeartRateReading } from './heartRateMonitor';
+
+// The planned workout as the live timer runs it
+export interface LiveSchedule {
+  layout: PlanLayout;
+  phases: PhaseSegment[];
+  // Seconds
+  duration: number;
+}
+
+export interface PhaseProgress {
+  // Null once the planned workout is over
+  current: PhaseSegment | null;
+  next: PhaseSegment | null;
+  // Seconds left in the current phase
+  remaining: number;
+}
+
+// Which cues have sounded, so each plays once even when readings repeat a second
+export interface CueState {
+  phaseStart: number;
+  countdownAt: number;
+}
+
+export type LiveCue = { kind: 'phase'; segment: PhaseSegment } | { kind: 'countdown' };
+
+export const INITIAL_CUES: CueState = { phaseStart: -1, countdownAt: -1 };
+
+// Seconds before a phase change that tick
+export const COUNTDOWN = 3;
+
+const PHASE_NAMES: Record<PhaseType, string> = {
+  warmup: 'Warmup',
+  active: 'Work',
+  recovery: 'Recovery',
+  rest: 'Rest',
+  cooldown: 'Cooldown'
+};
+
+export const liveSchedule = (params: TrainingParams): LiveSchedule => {
+  const duration = plannedDuration(params);
+  const layout = plannedLayout(params, duration);
+  const phases = sessionPhases({
+    warmupEnd: layout.warmupEnd,
+    cooldownStart: layout.cooldownStart,
+    intervals: layout.windows.map((window, i) => ({ ...window, interval: i + 1 }))
+  }, duration);
+  return { layout, phases, duration };
+};
+
+// Spoken and shown name of a phase; work phases use the plan's step name
+export const phaseName = (schedule: LiveSchedule, segment: PhaseSegment) => {
+  if (segment.interval === null) return PHASE_NAMES[segment.type];
+  const name = schedule.layout.windows[segment.interval - 1]?.name ?? `Interval ${segment.interval}`;
+  return segment.type === 'active' ? name : `${PHASE_NAMES[segment.type]} after ${name}`;
+};
+
+export const phaseProgress = (schedule: LiveSchedule, elapsed: number): PhaseProgress => {
+  const index = schedule.phases.findIndex(segment => elapsed >= segment.start && elapsed < segment.end);
+  if (index < 0) return { current: null, next: null, remaining: 0 };
+  const current = schedule.phases[index];
+  return { current, next: schedule.phases[index + 1] ?? null, remaining: current.end - elapsed };
+};
+
+// Seconds since the first reading, as stored in TrackPointData.time
+export const readingToPoint = (reading: HeartRateReading, startedAt: Date): TrackPointData => ({
+  time: Math.round((reading.timestamp.getTime() - startedAt.getTime()) / 1000),
+  heartRate: reading.heartRate,
+  timestamp: reading.timestamp
+});
+
+// RR intervals reported with a reading, stamped with its exact elapsed time
+export const readingToBeats = (reading: HeartRateReading, startedAt: Date): BeatInterval[] =>
+  reading.rrIntervals
+    .filter(isValidRR)
+    .map(rr => ({ time: (reading.timestamp.getTime() - startedAt.getTime()) / 1000, rr }));
+
+// Sensors notify about once a second; a second reading in the same second replaces the first
+export const appendPoint = (points: TrackPointData[], point: TrackPointData) =>
+  points.length > 0 && points[points.length - 1].time >= point.time
+    ? [...points.slice(0, -1), { ...point, time: points[points.length - 1].time }]
+    : [...points, point];
+
+/**
+ * The cue due at an elapsed second: the phase announcement when a new phase
+ * has begun, else a countdown tick in the last seconds before the next one.
+ */
+export const dueCue = (schedule: LiveSchedule, time: number, cues: CueState): { cue: LiveCue | null; cues: CueState } => {
+  const { current, next, remaining } = phaseProgress(schedule, time);
+  if (!current) return { cue: null, cues };
+  if (current.start !== cues.phaseStart) {
+    return { cue: { kind: 'phase', segment: current }, cues: { ...cues, phaseStart: current.start } };
+  }
+  if (next && remaining <= COUNTDOWN && time !== cues.countdownAt) {
+    return { cue: { kind: 'countdown' }, cues: { ...cues, countdownAt: time } };
+  }
+  return { cue: null, cues };
+};
+
+// Planned intervals whose recovery is over, for scoring the session while it runs
+export const finishedWindows = (schedule: LiveSchedule, elapsed: number): IntervalWindow[] =>
+  schedule.layout.windows
+    .filter(window => window.recoveryEnd <= elapsed)
+    .map(({ start, activeEnd, recoveryEnd }) => ({ start, activeEnd, recoveryEnd }));
+
+// Every phase the recording reached becomes a lap, so the saved session can be split by laps
+export const scheduleLaps = (schedule: LiveSchedule, endTime: number): ActivityLap[] =>
+  schedule.phases
+    .filter(segment => segment.start < endTime)
+    .map(segment => ({ start: segment.start, intensity: segment.type === 'active' ? 'active' : 'resting' }));
@@ -0,0 +1,56 @@
+import type { TrainingParams } from '../types';
+import type { PhaseType } from '../analysis/phases';
+import type { HeartRateMonitor } from './heartRateMonitor';
+import { liveSchedule, phaseProgress } from './liveSession';
+
+// Share of the heart-rate reserve each phase settles towards
+const PHASE_EFFORT: Record<PhaseType, number> = {
+  warmup: 0.45,
+  active: 0.9,
+  recovery: 0.45,
+  rest: 0.4,
+  cooldown: 0.3
+};
+
+const RISE_TAU = 25; // seconds for HR to close most of the gap when effort rises
+const FALL_TAU = 45; // and when it drops
+
+/**
+ * A strap that follows the planned workout, for trying live mode without
+ * hardware. HR eases towards each phase's effort with some beat-to-beat noise.
+ * At a speed above 1 simulated seconds pass faster, and reading timestamps
+ * advance with them so the live timer keeps pace.
+ */
+export const createSimulatedMonitor = (params: TrainingParams, speed = 1): HeartRateMonitor => {
+  const schedule = liveSchedule(params);
+  const reserve = params.maxHR - params.restingHR;
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let startedAt = 0;
+  let elapsed = 0;
+  let heartRate = params.restingHR + reserve * 0.2;
+
+  const stop = () => {
+    if (timer !== null) clearInterval(timer);
+    timer = null;
+  };
+
+  return {
+    name: 'Simulated strap',
+    start: async (onReading) => {
+      stop();
+      if (startedAt === 0) startedAt = Date.now();
+      timer = setInterval(() => {
+        const { current } = phaseProgress(schedule, elapsed);
+        const target = params.restingHR + reserve * PHASE_EFFORT[current?.type ?? 'cooldown'];
+        const tau = target > heartRate ? RISE_TAU : FALL_TAU;
+        heartRate += (target - heartRate) * (1 - Math.exp(-1 / tau));
+        const reported = Math.round(heartRate + (Math.random() - 0.5) * 3);
+        // One beat interval per reading is enough to exercise RR handling
+        const rr = Math.round(60000 / reported * (1 + (Math.random() - 0.5) * 0.06));
+        onReading({ timestamp: new Date(startedAt + elapsed * 1000), heartRate: reported, rrIntervals: [rr] });
+        elapsed++;
+      }, 1000 / speed);
+    },
+    stop
+  };
+};
@@ -0,0 +1,52 @@
+// Activity files handed to the installed app by the operating system or another app
+
+// File Handling API, not yet part of the TypeScript DOM types
+interface LaunchParams {
+  files: FileSystemFileHandle[];
+}
+
+interface LaunchQueue {
+  setConsumer: (consumer: (params: LaunchParams) => void) => void;
+}
+
+declare global {
+  interface Window {
+    launchQueue?: LaunchQueue;
+  }
+}
+
+// Must match the constants in serviceWorker.ts
+const SHARED_FILES_CACHE = 'hiit-shared-files';
+const SHARE_TARGET_PARAM = 'share-target';
+
+// Calls back with the files each time the app is opened on activity files
+export const onLaunchFiles = (receive: (files: File[]) => void, onError: (error: unknown) => void) => {
+  window.launchQueue?.setConsumer(async ({ files }) => {
+    if (files.length === 0) return;
+    try {
+      receive(await Promise.all(files.map(handle => handle.getFile())));
+    } catch (error) {
+      onError(error);
+    }
+  });
+};
+
+// Files the service worker parked after a share; each share is handed out once
+export const takeSharedFiles = async (): Promise<File[]> => {
+  const url = new URL(window.location.href);
+  if (!url.searchParams.has(SHARE_TARGET_PARAM) || !('caches' in window)) return [];
+  url.searchParams.delete(SHARE_TARGET_PARAM);
+  window.history.replaceState(null, '', url);
+
+  const cache = await caches.open(SHARED_FILES_CACHE);
+  const files: File[] = [];
+  for (const request of await cache.keys()) {
+    const response = await cache.match(request);
+    if (!response) continue;
+    const name = decodeURIComponent(response.headers.get('X-File-Name') ?? 'shared-activity');
+    const lastModified = Number(response.headers.get('X-Last-Modified')) || Date.now();
+    files.push(new File([await response.blob()], name, { lastModified }));
+  }
+  await caches.delete(SHARED_FILES_CACHE);
+  return files;
+};
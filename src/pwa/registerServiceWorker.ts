@@ -0,0 +1,9 @@
+// Only production builds get a service worker; the dev server always serves fresh modules
+export const registerServiceWorker = () => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register(`${import.meta.env.BASE_URL}sw.js`).catch(error => {
+      console.error('Service worker registration failed:', error);
+    });
+  });
+};
@@ -0,0 +1,82 @@
+// Service worker: keeps the app shell cached for offline use and receives shared activity files.
+// Built on its own by the serviceWorker plugin in vite.config.js, so it must not import anything.
+
+declare const self: ServiceWorkerGlobalScope;
+
+// Replaced at build time with the emitted files and a hash of them
+declare const PRECACHE_URLS: string[];
+declare const CACHE_VERSION: string;
+
+const SHELL_CACHE_PREFIX = 'hiit-shell-';
+const SHELL_CACHE = `${SHELL_CACHE_PREFIX}${CACHE_VERSION}`;
+// Must match SHARED_FILES_CACHE and SHARE_TARGET_PARAM in launchFiles.ts
+const SHARED_FILES_CACHE = 'hiit-shared-files';
+const SHARE_TARGET_PARAM = 'share-target';
+
+const scopeUrl = (path: string) => new URL(path, self.registration.scope).href;
+
+self.addEventListener('install', event => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(SHELL_CACHE);
+    await cache.addAll(PRECACHE_URLS);
+    await self.skipWaiting();
+  })());
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(names
+      .filter(name => name.startsWith(SHELL_CACHE_PREFIX) && name !== SHELL_CACHE)
+      .map(name => caches.delete(name)));
+    await self.clients.claim();
+  })());
+});
+
+// Files shared from another app are parked in a cache; the page picks them up after the redirect
+const receiveShare = async (request: Request) => {
+  const form = await request.formData();
+  const files = form.getAll('activity').filter((entry): entry is File => entry instanceof File);
+  const cache = await caches.open(SHARED_FILES_CACHE);
+  await Promise.all(files.map((file, i) => cache.put(
+    scopeUrl(`${SHARE_TARGET_PARAM}/${Date.now()}-${i}`),
+    new Response(file, { headers: { 'X-File-Name': encodeURIComponent(file.name), 'X-Last-Modified': String(file.lastModified) } })
+  )));
+  return Response.redirect(scopeUrl(`./?${SHARE_TARGET_PARAM}`), 303);
+};
+
+// Pages come from the network when online so a new release shows up, and from the cache otherwise
+const navigate = async (request: Request) => {
+  try {
+    return await fetch(request);
+  } catch {
+    const cached = await caches.match(scopeUrl('index.html'));
+    return cached ?? Response.error();
+  }
+};
+
+// Built assets are content-hashed, so a cached copy never goes stale
+const cacheFirst = async (request: Request) => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(SHELL_CACHE);
+    await cache.put(request, response.clone());
+  }
+  return response;
+};
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  if (request.method === 'POST' && url.href === scopeUrl(SHARE_TARGET_PARAM)) {
+    event.respondWith(receiveShare(request));
+  } else if (request.method === 'GET' && request.mode === 'navigate') {
+    event.respondWith(navigate(request));
+  } else if (request.method === 'GET') {
+    event.respondWith(cacheFirst(request));
+  }
+});
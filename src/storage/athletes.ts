@@ -0,0 +1,53 @@
+import type { AthleteProfile, TrainingParams } from '../types';
+import { ATHLETE_STORE, withStore } from './db';
+
+const ACTIVE_ATHLETE_KEY = 'hiit-analyzer.activeAthlete';
+
+export const saveAthlete = async (athlete: AthleteProfile): Promise<number> => {
+  const key = await withStore(ATHLETE_STORE, 'readwrite', store => store.put(athlete));
+  return key as number;
+};
+
+export const listAthletes = (): Promise<AthleteProfile[]> =>
+  withStore<AthleteProfile[]>(ATHLETE_STORE, 'readonly', store => store.getAll());
+
+export const deleteAthlete = async (id: number): Promise<void> => {
+  await withStore(ATHLETE_STORE, 'readwrite', store => store.delete(id));
+};
+
+// The selected athlete is a UI preference, so it lives in localStorage
+export const loadActiveAthleteId = () => {
+  const stored = localStorage.getItem(ACTIVE_ATHLETE_KEY);
+  return stored ? parseInt(stored) : null;
+};
+
+export const storeActiveAthleteId = (id: number | null) => {
+  if (id === null) {
+    localStorage.removeItem(ACTIVE_ATHLETE_KEY);
+  } else {
+    localStorage.setItem(ACTIVE_ATHLETE_KEY, id.toString());
+  }
+};
+
+export const ageOn = (athlete: AthleteProfile, date: Date) => date.getFullYear() - athlete.birthYear;
+
+// Most recent weight recorded on or before the date, else the earliest one
+export const weightOn = (athlete: AthleteProfile, date: Date) => {
+  const sorted = [...athlete.weights].sort((a, b) => a.date.getTime() - b.date.getTime());
+  const before = sorted.filter(entry => entry.date.getTime() <= date.getTime());
+  return (before[before.length - 1] ?? sorted[0])?.weight ?? null;
+};
+
+// Training parameters that come from the athlete, as of the session date
+export const athleteParams = (athlete: AthleteProfile, date: Date): Partial<TrainingParams> => {
+  const age = ageOn(athlete, date);
+  const weight = weightOn(athlete, date);
+  return {
+    athleteId: athlete.id ?? null,
+    age,
+    sex: athlete.sex,
+    restingHR: athlete.restingHR,
+    maxHR: athlete.maxHR ?? 220 - age,
+    ...(weight !== null ? { weight } : {})
+  };
+};
@@ -0,0 +1,55 @@
+const DB_NAME = 'hiit-analyzer';
+const DB_VERSION = 3;
+
+export const SESSION_STORE = 'sessions';
+export const ATHLETE_STORE = 'athletes';
+export const PLAN_STORE = 'plans';
+
+const upgrade = (db: IDBDatabase, oldVersion: number) => {
+  if (oldVersion < 1) {
+    const sessions = db.createObjectStore(SESSION_STORE, { keyPath: 'id', autoIncrement: true });
+    sessions.createIndex('recordedAt', 'recordedAt');
+  }
+  if (oldVersion < 2) {
+    db.createObjectStore(ATHLETE_STORE, { keyPath: 'id', autoIncrement: true });
+  }
+  if (oldVersion < 3) {
+    db.createObjectStore(PLAN_STORE, { keyPath: 'id', autoIncrement: true });
+  }
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this browser'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error ?? new Error('Failed to open local database'));
+    });
+    // Allow a later call to retry if opening failed
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+// Runs a single request against one object store and resolves with its result
+export const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = operation(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error ?? new Error(`Transaction on ${storeName} failed`));
+    transaction.onabort = () => reject(transaction.error ?? new Error(`Transaction on ${storeName} was aborted`));
+  });
+};
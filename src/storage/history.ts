@@ -0,0 +1,57 @@
+import type { ActivityLap, ActivityPause, BeatInterval, TrackPointData, TrainingParams } from '../types';
+import type { IntervalWindow } from '../analysis/intervalDetection';
+import { SESSION_STORE, withStore } from './db';
+
+// The parts of an analyzeHIIT result the history view charts
+export interface StoredAnalysis {
+  avgHR: number;
+  calories: number;
+  cumulativeRecoveryScore: number;
+  totalDuration: number;
+  zoneDistribution: Record<string, number>;
+  // Missing on sessions saved before zone models were configurable
+  highIntensityShare?: number;
+}
+
+export interface StoredSession {
+  id?: number;
+  fileName: string;
+  recordedAt: Date;
+  savedAt: Date;
+  points: TrackPointData[];
+  // Missing on sessions saved before lap markers were kept
+  laps?: ActivityLap[];
+  pauses?: ActivityPause[];
+  // Only kept when the strap recorded beat-to-beat intervals
+  rrIntervals?: BeatInterval[];
+  // Interval boundaries corrected by hand; missing when the detected ones are used
+  intervalEdits?: IntervalWindow[];
+  params: TrainingParams;
+  analysis: StoredAnalysis;
+}
+
+export const saveSession = async (session: StoredSession): Promise<number> => {
+  const key = await withStore(SESSION_STORE, 'readwrite', store => store.put(session));
+  return key as number;
+};
+
+// Oldest first, ordered by when the workout was recorded
+export const listSessions = (): Promise<StoredSession[]> =>
+  withStore<StoredSession[]>(SESSION_STORE, 'readonly', store => store.index('recordedAt').getAll());
+
+export const getSession = (id: number): Promise<StoredSession | undefined> =>
+  withStore<StoredSession | undefined>(SESSION_STORE, 'readonly', store => store.get(id));
+
+export const deleteSession = async (id: number): Promise<void> => {
+  await withStore(SESSION_STORE, 'readwrite', store => store.delete(id));
+};
+
+// Share of the session spent in high-intensity zones, as a percentage
+export const highIntensityShare = (analysis: StoredAnalysis) => {
+  if (analysis.highIntensityShare !== undefined) return analysis.highIntensityShare;
+  const counts = Object.values(analysis.zoneDistribution);
+  const total = counts.reduce((sum, count) => sum + count, 0);
+  if (total === 0) return 0;
+  const high = (analysis.zoneDistribution.zone4 || 0) + (analysis.zoneDistribution.zone5 || 0);
+  return Math.round((high / total) * 100);
+};
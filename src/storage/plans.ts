@@ -0,0 +1,14 @@
+import type { WorkoutPlan } from '../types';
+import { PLAN_STORE, withStore } from './db';
+
+export const savePlan = async (plan: WorkoutPlan): Promise<number> => {
+  const key = await withStore(PLAN_STORE, 'readwrite', store => store.put(plan));
+  return key as number;
+};
+
+export const listPlans = (): Promise<WorkoutPlan[]> =>
+  withStore<WorkoutPlan[]>(PLAN_STORE, 'readonly', store => store.getAll());
+
+export const deletePlan = async (id: number): Promise<void> => {
+  await withStore(PLAN_STORE, 'readwrite', store => store.delete(id));
+};
@@ -0,0 +1,156 @@
+// Optional sensor channels recorded alongside heart rate, in SI units
+export interface SensorChannels {
+  // Cumulative distance, meters
+  distance?: number;
+  // Meters above sea level
+  altitude?: number;
+  // Revolutions or strokes per minute
+  cadence?: number;
+  // Meters per second
+  speed?: number;
+  // Watts
+  power?: number;
+}
+
+export type ChannelKey = keyof SensorChannels;
+
+export interface TrackPointData extends SensorChannels {
+  time: number;
+  heartRate: number;
+  timestamp: Date;
+}
+
+// Planned HIIT structure, all durations in seconds
+export interface IntervalSchedule {
+  warmupTime: number;
+  activePhase: number;
+  recoveryPhase: number;
+  intervals: number;
+  cooldownTime: number;
+}
+
+export type PlanStepType = 'warmup' | 'active' | 'recovery' | 'rest' | 'cooldown';
+
+export interface PlanStep {
+  name: string;
+  type: PlanStepType;
+  // Seconds
+  duration: number;
+  // Zone key (zone1..) the step should be spent in, if any
+  targetZone: string | null;
+}
+
+// Ordered steps describing a workout that need not repeat uniformly
+export interface WorkoutPlan {
+  id?: number;
+  name: string;
+  steps: PlanStep[];
+}
+
+export type IntervalDetectionMode = 'schedule' | 'auto' | 'laps';
+
+export type LapIntensity = 'active' | 'resting';
+
+// Lap marker from the device, in seconds from the first sample
+export interface ActivityLap {
+  start: number;
+  intensity: LapIntensity | null;
+}
+
+// Recording stopped between these elapsed times
+export interface ActivityPause {
+  start: number;
+  end: number;
+}
+
+export interface ActivityMarkers {
+  laps: ActivityLap[];
+  pauses: ActivityPause[];
+}
+
+// One beat-to-beat (RR) interval from a chest strap
+export interface BeatInterval {
+  // Elapsed seconds, on the same clock as TrackPointData.time
+  time: number;
+  // Milliseconds
+  rr: number;
+}
+
+export interface ParsedActivity extends ActivityMarkers {
+  points: TrackPointData[];
+  // Only present when the file or sensor recorded beat-to-beat intervals
+  rrIntervals?: BeatInterval[];
+}
+
+export interface HRZone {
+  min: number;
+  max: number;
+  name: string;
+  color: string;
+}
+
+export type Sex = 'male' | 'female';
+
+export interface WeightEntry {
+  date: Date;
+  weight: number;
+}
+
+export interface AthleteProfile {
+  id?: number;
+  name: string;
+  birthYear: number;
+  sex: Sex;
+  restingHR: number;
+  // Measured max HR; null falls back to the 220 - age estimate
+  maxHR: number | null;
+  weights: WeightEntry[];
+}
+
+export type ZoneModelType = 'percentMax' | 'karvonen' | 'lthr' | 'custom';
+
+export interface ZoneModel {
+  type: ZoneModelType;
+  // Lactate threshold HR, used by the Friel LTHR model
+  lthr: number;
+  // User-defined bands in bpm, used by the custom model
+  customZones: HRZone[];
+}
+
+export interface CleaningOptions {
+  enabled: boolean;
+  // Samples further than this (bpm) from the rolling median are rejected
+  outlierThreshold: number;
+  // Fastest plausible change between accepted samples, bpm per second
+  maxRateOfChange: number;
+  // Runs of one repeated value lasting this long (seconds) are treated as a dropout
+  flatlineDuration: number;
+  interpolateGaps: boolean;
+  // Longest gap (seconds) filled by linear interpolation
+  maxInterpolatedGap: number;
+}
+
+// Zone keys each phase should reach; active targets count that zone and above,
+// recovery targets that zone and below
+export interface ZoneTargets {
+  active: string | null;
+  recovery: string | null;
+}
+
+export interface TrainingParams extends IntervalSchedule {
+  athleteId: number | null;
+  maxHR: number;
+  restingHR: number;
+  age: number;
+  weight: number;
+  sex: Sex;
+  intervalDetection: IntervalDetectionMode;
+  // Longest gap between samples (seconds) credited to time in zone
+  maxGap: number;
+  zoneModel: ZoneModel;
+  cleaning: CleaningOptions;
+  // Replaces the uniform schedule fields when set
+  plan: WorkoutPlan | null;
+  // Used for intervals whose plan step sets no target zone
+  targets: ZoneTargets;
+}
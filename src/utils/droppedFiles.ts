@@ -0,0 +1,42 @@
+// Resolves everything dropped on the page into files, walking into dropped folders
+
+const readEntries = (reader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> =>
+  new Promise((resolve, reject) => reader.readEntries(resolve, reject));
+
+const entryToFile = (entry: FileSystemFileEntry): Promise<File> =>
+  new Promise((resolve, reject) => entry.file(resolve, reject));
+
+const collectEntry = async (entry: FileSystemEntry, accept: (name: string) => boolean): Promise<File[]> => {
+  if (entry.isFile) {
+    return accept(entry.name) ? [await entryToFile(entry as FileSystemFileEntry)] : [];
+  }
+  if (!entry.isDirectory) return [];
+
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  const files: File[] = [];
+  // readEntries returns at most ~100 entries per call, so keep reading until it is empty
+  for (let batch = await readEntries(reader); batch.length > 0; batch = await readEntries(reader)) {
+    for (const child of batch) {
+      files.push(...await collectEntry(child, accept));
+    }
+  }
+  return files;
+};
+
+/**
+ * Files dropped directly are always returned; files found inside dropped
+ * folders are kept only when `accept` approves their name.
+ */
+export const collectDroppedFiles = async (dataTransfer: DataTransfer, accept: (name: string) => boolean): Promise<File[]> => {
+  const entries = Array.from(dataTransfer.items)
+    .map(item => item.webkitGetAsEntry?.() ?? null)
+    .filter((entry): entry is FileSystemEntry => entry !== null);
+
+  if (entries.length === 0) return Array.from(dataTransfer.files);
+
+  const files: File[] = [];
+  for (const entry of entries) {
+    files.push(...await collectEntry(entry, name => entry.isFile || accept(name)));
+  }
+  return files;
+};
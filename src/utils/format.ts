@@ -0,0 +1,8 @@
+// Formats seconds as m:ss (or h:mm:ss past an hour)
+export const formatClock = (totalSeconds: number) => {
+  const seconds = Math.max(0, Math.round(totalSeconds));
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = (seconds % 60).toString().padStart(2, '0');
+  return h > 0 ? `${h}:${m.toString().padStart(2, '0')}:${s}` : `${m}:${s}`;
+};
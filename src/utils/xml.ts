@@ -0,0 +1,169 @@
+// Small non-validating XML reader, so activity files parse without the browser DOMParser
+
+export interface XmlElement {
+  // Qualified name as written, e.g. "ns3:TPX"
+  name: string;
+  // Name without the namespace prefix
+  localName: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  // Concatenated character data of this element and its descendants
+  text: string;
+}
+
+export class XmlParseError extends Error {
+  position: number;
+
+  constructor(message: string, position: number) {
+    super(`${message} (at character ${position})`);
+    this.name = 'XmlParseError';
+    this.position = position;
+  }
+}
+
+const NAMED_ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+const decodeEntities = (text: string) =>
+  text.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[a-zA-Z]+);/g, (match, entity: string) => {
+    if (entity.startsWith('#x')) return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    if (entity.startsWith('#')) return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    return NAMED_ENTITIES[entity] ?? match;
+  });
+
+const localNameOf = (name: string) => name.slice(name.indexOf(':') + 1);
+
+const ATTRIBUTE = /([^\s=/>]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+
+const parseAttributes = (source: string) => {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(ATTRIBUTE)) {
+    attributes[match[1]] = decodeEntities(match[3] ?? match[4] ?? '');
+  }
+  return attributes;
+};
+
+// End of a tag, skipping any '>' inside quoted attribute values
+const findTagEnd = (source: string, from: number) => {
+  let quote: string | null = null;
+  for (let i = from; i < source.length; i++) {
+    const char = source[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '>') {
+      return i;
+    }
+  }
+  return -1;
+};
+
+// Text gathered per open element, so parents include their descendants' text
+interface OpenElement {
+  element: XmlElement;
+  text: string[];
+}
+
+/**
+ * Parses a document into a tree of elements. Comments, processing
+ * instructions and the DOCTYPE are skipped; CDATA sections are kept as text.
+ * Mismatched or unclosed tags throw an XmlParseError.
+ */
+export const parseXml = (source: string): XmlElement => {
+  const stack: OpenElement[] = [];
+  let root: XmlElement | null = null;
+  let position = 0;
+
+  const appendText = (text: string) => {
+    stack.forEach(open => open.text.push(text));
+  };
+
+  const close = () => {
+    const open = stack.pop()!;
+    open.element.text = open.text.join('');
+    if (stack.length === 0) root = open.element;
+  };
+
+  while (position < source.length) {
+    const tagStart = source.indexOf('<', position);
+    if (tagStart < 0) {
+      if (stack.length > 0) appendText(decodeEntities(source.slice(position)));
+      break;
+    }
+    if (tagStart > position && stack.length > 0) appendText(decodeEntities(source.slice(position, tagStart)));
+
+    const skipTo = (terminator: string, what: string) => {
+      const end = source.indexOf(terminator, tagStart);
+      if (end < 0) throw new XmlParseError(`Unterminated ${what}`, tagStart);
+      return end + terminator.length;
+    };
+
+    if (source.startsWith('<!--', tagStart)) {
+      position = skipTo('-->', 'comment');
+    } else if (source.startsWith('<![CDATA[', tagStart)) {
+      position = skipTo(']]>', 'CDATA section');
+      if (stack.length > 0) appendText(source.slice(tagStart + 9, position - 3));
+    } else if (source.startsWith('<?', tagStart)) {
+      position = skipTo('?>', 'processing instruction');
+    } else if (source.startsWith('<!', tagStart)) {
+      position = skipTo('>', 'declaration');
+    } else {
+      const tagEnd = findTagEnd(source, tagStart);
+      if (tagEnd < 0) throw new XmlParseError('Unterminated tag', tagStart);
+      const tag = source.slice(tagStart + 1, tagEnd);
+      position = tagEnd + 1;
+
+      if (tag.startsWith('/')) {
+        const name = tag.slice(1).trim();
+        const open = stack[stack.length - 1];
+        if (!open || open.element.name !== name) {
+          throw new XmlParseError(`Closing tag </${name}> does not match ${open ? `<${open.element.name}>` : 'any open element'}`, tagStart);
+        }
+        close();
+        continue;
+      }
+
+      const selfClosing = tag.endsWith('/');
+      const body = selfClosing ? tag.slice(0, -1) : tag;
+      const name = body.match(/^[^\s/>]+/)?.[0];
+      if (!name) throw new XmlParseError('Tag without a name', tagStart);
+      if (stack.length === 0 && root) throw new XmlParseError('Content after the root element', tagStart);
+
+      const element: XmlElement = {
+        name,
+        localName: localNameOf(name),
+        attributes: parseAttributes(body.slice(name.length)),
+        children: [],
+        text: ''
+      };
+      stack[stack.length - 1]?.element.children.push(element);
+      stack.push({ element, text: [] });
+      if (selfClosing) close();
+    }
+  }
+
+  if (stack.length > 0) throw new XmlParseError(`Element <${stack[stack.length - 1].element.name}> is never closed`, source.length);
+  if (!root) throw new XmlParseError('No root element', 0);
+  return root;
+};
+
+const sameName = (element: XmlElement, localName: string) => element.localName.toLowerCase() === localName.toLowerCase();
+
+// All descendants with the local name (any namespace, any case), in document order
+export const descendants = (element: XmlElement, localName: string): XmlElement[] => {
+  const found: XmlElement[] = [];
+  const visit = (node: XmlElement) => {
+    for (const child of node.children) {
+      if (sameName(child, localName)) found.push(child);
+      visit(child);
+    }
+  };
+  visit(element);
+  return found;
+};
+
+export const firstDescendant = (element: XmlElement, localName: string): XmlElement | null =>
+  descendants(element, localName)[0] ?? null;
+
+export const child = (element: XmlElement, localName: string): XmlElement | null =>
+  element.children.find(candidate => sameName(candidate, localName)) ?? null;
@@ -1,5 +1,54 @@
-import { defineConfig } from 'vite'
+import { createHash } from 'node:crypto'
+import { readFileSync, readdirSync } from 'node:fs'
+import { join } from 'node:path'
+import { defineConfig, transformWithEsbuild } from 'vite'
 
-export default defineConfig({
+const SERVICE_WORKER_SOURCE = 'src/pwa/serviceWorker.ts'
+
+// Compiles the service worker to sw.js with the list of files to precache:
+// everything the build emits plus the public folder. The cache version is a
+// hash of their contents, so each release replaces the previous cache.
+const serviceWorker = () => {
+  let base = '/'
+  let publicDir = ''
+
+  return {
+    name: 'hiit-service-worker',
+    apply: 'build',
+    enforce: 'post',
+    configResolved(config) {
+      base = config.base
+      publicDir = config.publicDir
+    },
+    async generateBundle(_, bundle) {
+      const files = new Map()
+      for (const output of Object.values(bundle)) {
+        files.set(output.fileName, output.type === 'chunk' ? output.code : output.source)
+      }
+      for (const entry of readdirSync(publicDir, { withFileTypes: true })) {
+        if (entry.isFile()) files.set(entry.name, readFileSync(join(publicDir, entry.name)))
+      }
+
+      const names = [...files.keys()].sort()
+      const hash = createHash('sha256')
+      names.forEach(name => hash.update(name).update(files.get(name)))
+
+      const source = readFileSync(SERVICE_WORKER_SOURCE, 'utf-8')
+      const { code } = await transformWithEsbuild(source, SERVICE_WORKER_SOURCE, {
+        loader: 'ts',
+        define: {
+          PRECACHE_URLS: JSON.stringify(names.map(name => `${base}${name}`)),
+          CACHE_VERSION: JSON.stringify(hash.digest('hex').slice(0, 12))
+        }
+      })
+      this.emitFile({ type: 'asset', fileName: 'sw.js', source: code })
+    }
+  }
+}
+
+// The command-line build (build:cli) has no app shell, icons or manifest
+export default defineConfig(({ isSsrBuild }) => ({
   base: '/Hiit_training-analyzer/', // ← this must match your repo name
-})
+  publicDir: isSsrBuild ? false : 'public',
+  plugins: isSsrBuild ? [] : [serviceWorker()],
+}))